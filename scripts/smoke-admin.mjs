@@ -0,0 +1,135 @@
+import { spawn } from 'node:child_process';
+import process from 'node:process';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import { CallToolResultSchema, Client, StreamableHTTPClientTransport } from '@modelcontextprotocol/client';
+
+const port = Number(process.env.SMOKE_PORT ?? 3220);
+const adminPort = port + 1;
+const adminToken = 'smoke-admin-token';
+const serverUrl = new URL(`http://127.0.0.1:${port}/mcp`);
+const adminUrl = `http://127.0.0.1:${adminPort}/admin`;
+
+const waitForHealth = async () => {
+  for (let attempt = 0; attempt < 30; attempt += 1) {
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}/health`);
+      if (response.ok) {
+        return;
+      }
+    } catch {
+      // Keep retrying while process boots.
+    }
+    await sleep(200);
+  }
+
+  throw new Error('Server did not become healthy in time.');
+};
+
+const child = spawn('node', ['dist/server.js'], {
+  stdio: 'inherit',
+  env: {
+    ...process.env,
+    PORT: String(port),
+    HOST: '127.0.0.1',
+    ADMIN_TOKEN: adminToken,
+    ADMIN_PORT: String(adminPort)
+  }
+});
+
+const cleanup = () => {
+  if (!child.killed) {
+    child.kill('SIGTERM');
+  }
+};
+
+process.on('exit', cleanup);
+process.on('SIGINT', cleanup);
+process.on('SIGTERM', cleanup);
+
+const admin = async (path, { method = 'GET', token = adminToken } = {}) => {
+  const response = await fetch(`${adminUrl}${path}`, {
+    method,
+    headers: token ? { authorization: `Bearer ${token}` } : {}
+  });
+  return {
+    status: response.status,
+    challenge: response.headers.get('www-authenticate'),
+    body: await response.json()
+  };
+};
+
+const calculate = (client) =>
+  client.request(
+    {
+      method: 'tools/call',
+      params: { name: 'calculate', arguments: { operation: 'add', left: 2, right: 3 } }
+    },
+    CallToolResultSchema
+  );
+
+try {
+  await waitForHealth();
+
+  // With `ADMIN_PORT` set the public listener does not serve the admin routes at all.
+  const publicAdmin = await fetch(`http://127.0.0.1:${port}/admin/sessions`, {
+    headers: { authorization: `Bearer ${adminToken}` }
+  });
+  await publicAdmin.body?.cancel();
+  if (publicAdmin.status !== 404) {
+    throw new Error(`Public port served the admin routes: ${publicAdmin.status}`);
+  }
+
+  for (const token of [null, 'not-the-admin-token']) {
+    const refused = await admin('/sessions', { token });
+    if (refused.status !== 401 || refused.challenge !== 'Bearer realm="admin"') {
+      throw new Error(
+        `Admin API accepted ${token ? 'a wrong' : 'no'} token: ${refused.status} ${refused.challenge}`
+      );
+    }
+  }
+
+  const transport = new StreamableHTTPClientTransport(serverUrl);
+  const client = new Client({ name: 'smoke-admin', version: '1.0.0' });
+  await client.connect(transport);
+  await calculate(client);
+  const { sessionId } = transport;
+
+  const listed = await admin('/sessions');
+  if (listed.status !== 200 || !listed.body.sessions.some((session) => session.sessionId === sessionId)) {
+    throw new Error(`Admin session list is missing '${sessionId}': ${JSON.stringify(listed.body)}`);
+  }
+
+  const inspected = await admin(`/sessions/${sessionId}`);
+  if (inspected.status !== 200 || inspected.body.clientInfo?.name !== 'smoke-admin') {
+    throw new Error(`Unexpected session details: ${JSON.stringify(inspected.body)}`);
+  }
+
+  const closed = await admin(`/sessions/${sessionId}`, { method: 'DELETE' });
+  if (closed.status !== 200 || closed.body.closed !== true || closed.body.sessionId !== sessionId) {
+    throw new Error(`Admin could not close the session: ${closed.status} ${JSON.stringify(closed.body)}`);
+  }
+
+  // The closed session is gone from the list and no longer accepts requests.
+  const afterClose = await admin('/sessions');
+  if (afterClose.body.sessions.some((session) => session.sessionId === sessionId)) {
+    throw new Error(`Closed session is still listed: ${JSON.stringify(afterClose.body)}`);
+  }
+  const missing = await admin(`/sessions/${sessionId}`);
+  if (missing.status !== 404) {
+    throw new Error(`Closed session can still be inspected: ${missing.status}`);
+  }
+  const rejected = await calculate(client).then(
+    () => false,
+    () => true
+  );
+  if (!rejected) {
+    throw new Error('Closed session still answered a tool call.');
+  }
+  await client.close();
+
+  console.log('Admin smoke test passed.');
+} finally {
+  cleanup();
+  await sleep(250);
+}
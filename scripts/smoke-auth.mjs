@@ -0,0 +1,241 @@
+import { spawn } from 'node:child_process';
+import process from 'node:process';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import {
+  CallToolResultSchema,
+  Client,
+  ListToolsResultSchema,
+  StreamableHTTPClientTransport
+} from '@modelcontextprotocol/client';
+
+const port = Number(process.env.SMOKE_PORT ?? 3218);
+const serverUrl = new URL(`http://127.0.0.1:${port}/mcp`);
+const metadataUrl = `http://127.0.0.1:${port}/.well-known/oauth-protected-resource`;
+const authorizationServer = 'https://auth.example.test';
+const resourcePageSize = 2;
+
+const waitForHealth = async () => {
+  for (let attempt = 0; attempt < 30; attempt += 1) {
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}/health`);
+      if (response.ok) {
+        return;
+      }
+    } catch {
+      // Keep retrying while process boots.
+    }
+    await sleep(200);
+  }
+
+  throw new Error('Server did not become healthy in time.');
+};
+
+const child = spawn('node', ['dist/server.js'], {
+  stdio: 'inherit',
+  env: {
+    ...process.env,
+    PORT: String(port),
+    HOST: '127.0.0.1',
+    AUTH_MODE: 'bearer',
+    AUTH_API_KEYS: [
+      'smoke-writer:writer-token:calc:read calc:write',
+      'smoke-reader:reader-token:calc:read',
+      'smoke-guest:guest-token'
+    ].join(','),
+    AUTH_AUTHORIZATION_SERVERS: authorizationServer,
+    RESOURCE_PAGE_SIZE: String(resourcePageSize)
+  }
+});
+
+const cleanup = () => {
+  if (!child.killed) {
+    child.kill('SIGTERM');
+  }
+};
+
+process.on('exit', cleanup);
+process.on('SIGINT', cleanup);
+process.on('SIGTERM', cleanup);
+
+const initialize = (headers) =>
+  fetch(serverUrl, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      accept: 'application/json, text/event-stream',
+      ...headers
+    },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: '2025-11-25',
+        capabilities: {},
+        clientInfo: { name: 'smoke-auth', version: '1.0.0' }
+      }
+    })
+  });
+
+const rejectionCode = (promise) =>
+  promise.then(
+    () => undefined,
+    (error) => error.code
+  );
+
+const listToolNames = async (client) =>
+  (await client.request({ method: 'tools/list', params: {} }, ListToolsResultSchema)).tools
+    .map((tool) => tool.name)
+    .sort();
+
+const connect = async (token) => {
+  const client = new Client({ name: 'smoke-auth', version: '1.0.0' });
+  await client.connect(
+    new StreamableHTTPClientTransport(serverUrl, {
+      requestInit: { headers: { authorization: `Bearer ${token}` } }
+    })
+  );
+  return client;
+};
+
+try {
+  await waitForHealth();
+
+  // Without a token the challenge only points at the metadata; a rejected token also says why.
+  const anonymous = await initialize({});
+  await anonymous.body?.cancel();
+  const anonymousChallenge = anonymous.headers.get('www-authenticate') ?? '';
+  if (anonymous.status !== 401 || anonymousChallenge !== `Bearer resource_metadata="${metadataUrl}"`) {
+    throw new Error(`Unexpected response without a token: ${anonymous.status} ${anonymousChallenge}`);
+  }
+
+  const rejected = await initialize({ authorization: 'Bearer not-a-known-token' });
+  await rejected.body?.cancel();
+  const rejectedChallenge = rejected.headers.get('www-authenticate') ?? '';
+  if (
+    rejected.status !== 401 ||
+    !rejectedChallenge.includes(`resource_metadata="${metadataUrl}"`) ||
+    !rejectedChallenge.includes('error="invalid_token"')
+  ) {
+    throw new Error(`Unexpected response for an unknown token: ${rejected.status} ${rejectedChallenge}`);
+  }
+
+  const metadata = await (await fetch(metadataUrl)).json();
+  if (
+    metadata.resource !== serverUrl.href ||
+    JSON.stringify(metadata.authorization_servers) !== JSON.stringify([authorizationServer]) ||
+    JSON.stringify(metadata.scopes_supported) !== JSON.stringify(['calc:read', 'calc:write'])
+  ) {
+    throw new Error(`Unexpected protected-resource metadata: ${JSON.stringify(metadata)}`);
+  }
+
+  const writer = await connect('writer-token');
+  const tools = await writer.request({ method: 'tools/list', params: {} }, ListToolsResultSchema);
+  if (!tools.tools.some((tool) => tool.name === 'calculate')) {
+    throw new Error(`A valid token did not reach the tools: ${JSON.stringify(tools)}`);
+  }
+
+  // A read-only token sees the read tools only, and calling a write tool anyway names the missing scope.
+  const reader = await connect('reader-token');
+  const readerTools = await listToolNames(reader);
+  if (
+    readerTools.includes('calculate') ||
+    readerTools.includes('calculate-interactive') ||
+    !readerTools.includes('history-summary')
+  ) {
+    throw new Error(`Read-only token saw the wrong tools: ${readerTools.join(', ')}`);
+  }
+  const denied = await reader.request(
+    {
+      method: 'tools/call',
+      params: { name: 'calculate', arguments: { operation: 'add', left: 2, right: 3 } }
+    },
+    CallToolResultSchema
+  );
+  const deniedError = denied.structuredContent?.error;
+  if (
+    !denied.isError ||
+    deniedError?.code !== 'insufficient_scope' ||
+    JSON.stringify(deniedError.missingScopes) !== JSON.stringify(['calc:write'])
+  ) {
+    throw new Error(`Read-only token was not refused calculate: ${JSON.stringify(denied)}`);
+  }
+  await reader.close();
+
+  // A token with no scopes lists nothing and is refused resources, prompts, and their completions.
+  const guest = await connect('guest-token');
+  const guestTools = await listToolNames(guest);
+  const guestResources = (await guest.listResources()).resources;
+  const guestPrompts = (await guest.listPrompts()).prompts;
+  const refusals = [
+    await rejectionCode(guest.readResource({ uri: 'calc://history' })),
+    await rejectionCode(
+      guest.getPrompt({ name: 'explain-calculation', arguments: { formula: '2 + 3 = 5' } })
+    ),
+    await rejectionCode(
+      guest.complete({
+        ref: { type: 'ref/prompt', name: 'explain-calculation' },
+        argument: { name: 'formula', value: '' }
+      })
+    )
+  ];
+  if (
+    guestTools.length > 0 ||
+    guestResources.length > 0 ||
+    guestPrompts.length > 0 ||
+    refusals.some((code) => code !== -32_003)
+  ) {
+    throw new Error(
+      `Scope-less token was not restricted: ${JSON.stringify({ guestTools, guestResources, guestPrompts, refusals })}`
+    );
+  }
+  await guest.close();
+
+  const calculation = await writer.request(
+    {
+      method: 'tools/call',
+      params: { name: 'calculate', arguments: { operation: 'add', left: 2, right: 3 } }
+    },
+    CallToolResultSchema
+  );
+  if (calculation.structuredContent?.result !== 5) {
+    throw new Error(`Write token could not calculate: ${JSON.stringify(calculation)}`);
+  }
+
+  // Session history, the calculation, and the key's own user history come back over two pages.
+  const ownHistoryUri = 'calc://users/smoke-writer/history';
+  const firstPage = await writer.listResources();
+  const secondPage = await writer.listResources({ cursor: firstPage.nextCursor });
+  const pagedUris = [...firstPage.resources, ...secondPage.resources].map((resource) => resource.uri);
+  if (
+    firstPage.resources.length !== resourcePageSize ||
+    !firstPage.nextCursor ||
+    secondPage.nextCursor !== undefined ||
+    JSON.stringify(pagedUris.sort()) !==
+      JSON.stringify(['calc://history', 'calc://history/calc_1', ownHistoryUri])
+  ) {
+    throw new Error(`Unexpected resource pages: ${JSON.stringify({ firstPage, secondPage })}`);
+  }
+  const invalidCursor = await rejectionCode(writer.listResources({ cursor: 'not-a-cursor' }));
+  if (invalidCursor !== -32_602) {
+    throw new Error(`An invalid cursor was not refused with -32602: ${invalidCursor}`);
+  }
+
+  // A user's shared history is readable by that user; an unknown user's reads as not found.
+  const ownHistory = await writer.readResource({ uri: ownHistoryUri });
+  const ownRecords = JSON.parse(ownHistory.contents[0]?.text ?? '[]');
+  if (ownRecords.length !== 1 || ownRecords[0].result !== 5) {
+    throw new Error(`Unexpected user history: ${JSON.stringify(ownHistory)}`);
+  }
+  const otherHistory = await rejectionCode(writer.readResource({ uri: 'calc://users/unknown-user/history' }));
+  if (otherHistory !== -32_002) {
+    throw new Error(`An unknown user's history was not reported as not found: ${otherHistory}`);
+  }
+  await writer.close();
+
+  console.log('Auth smoke test passed.');
+} finally {
+  cleanup();
+  await sleep(250);
+}
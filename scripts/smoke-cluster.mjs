@@ -0,0 +1,202 @@
+import { spawn } from 'node:child_process';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { request } from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+const port = Number(process.env.SMOKE_PORT ?? 3217);
+const protocolVersion = '2025-11-25';
+const dataDir = await mkdtemp(path.join(os.tmpdir(), 'mcp-cluster-'));
+const sessionDir = path.join(dataDir, 'cluster');
+
+// A fresh connection per request, so the primary spreads them over both workers. Streams that
+// stay open, like a resumed GET, are cut once `done` matches what has arrived.
+const send = (method, headers, body, done = () => false) =>
+  new Promise((resolve, reject) => {
+    const req = request(
+      { host: '127.0.0.1', port, path: '/mcp', method, headers, agent: false, timeout: 5000 },
+      (res) => {
+        let text = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk) => {
+          text += chunk;
+          if (done(text)) {
+            resolve({ status: res.statusCode, headers: res.headers, text });
+            req.destroy();
+          }
+        });
+        res.on('end', () => resolve({ status: res.statusCode, headers: res.headers, text }));
+      }
+    );
+    req.once('timeout', () => req.destroy(new Error(`${method} /mcp timed out.`)));
+    req.once('error', reject);
+    req.end(body);
+  });
+
+const postMessage = async (message, sessionId, extraHeaders = {}) => {
+  const headers = {
+    'content-type': 'application/json',
+    accept: 'application/json, text/event-stream',
+    ...extraHeaders
+  };
+  if (sessionId) {
+    headers['mcp-session-id'] = sessionId;
+    headers['mcp-protocol-version'] = protocolVersion;
+  }
+
+  const response = await send('POST', headers, JSON.stringify(message));
+  return { ...response, sessionId: response.headers['mcp-session-id'] ?? sessionId };
+};
+
+const eventIdsFrom = (sseText) => [...sseText.matchAll(/^id: (.+)$/gm)].map((match) => match[1]);
+
+const messagesFrom = (sseText) =>
+  [...sseText.matchAll(/^data: (.+)$/gm)].map((match) => JSON.parse(match[1]));
+
+const child = spawn('node', ['dist/cluster.js'], {
+  stdio: ['ignore', 'pipe', 'inherit'],
+  env: {
+    ...process.env,
+    PORT: String(port),
+    HOST: '127.0.0.1',
+    CLUSTER_WORKERS: '2',
+    CLUSTER_SESSION_DIR: sessionDir,
+    EVENT_STORE_DIR: path.join(dataDir, 'events'),
+    SESSION_STORE_DIR: path.join(dataDir, 'sessions'),
+    HISTORY_STORE_DIR: path.join(dataDir, 'history'),
+    SHUTDOWN_GRACE_MS: '0'
+  }
+});
+
+// The workers' log lines show when both are listening and which requests were forwarded.
+let output = '';
+child.stdout.setEncoding('utf8');
+child.stdout.on('data', (chunk) => {
+  output += chunk;
+  process.stdout.write(chunk);
+});
+
+const countLogLines = (pattern) => output.split('\n').filter((line) => pattern.test(line)).length;
+
+const waitForWorkers = async () => {
+  for (let attempt = 0; attempt < 50; attempt += 1) {
+    if (countLogLines(/MCP Streamable HTTP server listening/) === 2) {
+      return;
+    }
+    await sleep(200);
+  }
+
+  throw new Error('Cluster workers did not start in time.');
+};
+
+const cleanup = () => {
+  if (child.exitCode === null && !child.killed) {
+    child.kill('SIGTERM');
+  }
+};
+
+process.on('exit', cleanup);
+process.on('SIGINT', cleanup);
+process.on('SIGTERM', cleanup);
+
+try {
+  await waitForWorkers();
+
+  const { sessionId } = await postMessage({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion, capabilities: {}, clientInfo: { name: 'smoke-cluster', version: '1.0.0' } }
+  });
+  await postMessage({ jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId);
+
+  // Half of these land on the worker that does not hold the session and must be forwarded. A
+  // client-set header that looks like an internal marker must not change that.
+  for (let left = 1; left <= 6; left += 1) {
+    const call = await postMessage(
+      {
+        jsonrpc: '2.0',
+        id: left + 1,
+        method: 'tools/call',
+        params: { name: 'calculate', arguments: { operation: 'multiply', left, right: 7 } }
+      },
+      sessionId,
+      { 'x-mcp-forwarded': '1' }
+    );
+    const result = messagesFrom(call.text).find((message) => message.id === left + 1)?.result;
+    if (call.status !== 200 || result?.structuredContent?.result !== left * 7) {
+      throw new Error(`tools/call ${left} failed with ${call.status}: ${call.text}`);
+    }
+  }
+  if (countLogLines(/"forwardedTo"/) === 0) {
+    throw new Error('No request was forwarded to the worker holding the session.');
+  }
+  if (countLogLines(/session restored from persisted state/) > 0) {
+    throw new Error('A second worker restored the session while its owner was still running.');
+  }
+
+  const owner = JSON.parse(await readFile(path.join(sessionDir, `${sessionId}.json`), 'utf8'));
+
+  const call = await postMessage(
+    {
+      jsonrpc: '2.0',
+      id: 'series',
+      method: 'tools/call',
+      params: {
+        name: 'compute-series',
+        arguments: { series: 'basel', terms: 1000, steps: 4, delayMs: 0 },
+        _meta: { progressToken: 'cluster' }
+      }
+    },
+    sessionId
+  );
+  const [, firstProgressEventId] = eventIdsFrom(call.text);
+  if (!firstProgressEventId) {
+    throw new Error(`No resumable event IDs in compute-series stream: ${call.text}`);
+  }
+
+  // With the owner gone, the surviving worker restores the session and replays the events it wrote.
+  process.kill(owner.pid, 'SIGKILL');
+  await sleep(250);
+
+  const resumed = await send(
+    'GET',
+    {
+      accept: 'text/event-stream',
+      'mcp-session-id': sessionId,
+      'mcp-protocol-version': protocolVersion,
+      'last-event-id': firstProgressEventId
+    },
+    undefined,
+    (text) => text.includes('"id":"series"')
+  );
+  const replayed = messagesFrom(resumed.text);
+  const replayedProgress = replayed
+    .filter((message) => message.method === 'notifications/progress')
+    .map((message) => message.params.progress);
+  const series = replayed.find((message) => message.id === 'series')?.result;
+  if (replayedProgress.at(-1) !== 1000 || typeof series?.structuredContent?.value !== 'number') {
+    throw new Error(`Events were not replayed by another worker (${resumed.status}): ${resumed.text}`);
+  }
+
+  const history = await postMessage(
+    {
+      jsonrpc: '2.0',
+      id: 'history',
+      method: 'tools/call',
+      params: { name: 'history-summary', arguments: { limit: 10 } }
+    },
+    sessionId
+  );
+  if (!history.text.includes('6 * 7 = 42')) {
+    throw new Error(`Session history did not survive the owner: ${history.text}`);
+  }
+
+  console.log('Cluster smoke test passed.');
+} finally {
+  cleanup();
+  await sleep(500);
+  await rm(dataDir, { recursive: true, force: true });
+}
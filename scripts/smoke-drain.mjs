@@ -0,0 +1,163 @@
+import { spawn } from 'node:child_process';
+import process from 'node:process';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+const port = Number(process.env.SMOKE_PORT ?? 3213);
+const baseUrl = `http://127.0.0.1:${port}`;
+const serverUrl = `${baseUrl}/mcp`;
+const protocolVersion = '2025-11-25';
+
+const waitForHealth = async () => {
+  for (let attempt = 0; attempt < 30; attempt += 1) {
+    try {
+      const response = await fetch(`${baseUrl}/readyz`);
+      if (response.ok) {
+        return;
+      }
+    } catch {
+      // Keep retrying while process boots.
+    }
+    await sleep(200);
+  }
+
+  throw new Error('Server did not become ready in time.');
+};
+
+const startServer = (shutdownGraceMs) =>
+  spawn('node', ['dist/server.js'], {
+    stdio: 'inherit',
+    env: {
+      ...process.env,
+      PORT: String(port),
+      HOST: '127.0.0.1',
+      SHUTDOWN_GRACE_MS: String(shutdownGraceMs)
+    }
+  });
+
+const postMessage = async (message, sessionId) => {
+  const headers = {
+    'content-type': 'application/json',
+    accept: 'application/json, text/event-stream'
+  };
+  if (sessionId) {
+    headers['mcp-session-id'] = sessionId;
+    headers['mcp-protocol-version'] = protocolVersion;
+  }
+
+  const response = await fetch(serverUrl, { method: 'POST', headers, body: JSON.stringify(message) });
+  return {
+    status: response.status,
+    retryAfter: response.headers.get('retry-after'),
+    sessionId: response.headers.get('mcp-session-id') ?? sessionId,
+    text: await response.text()
+  };
+};
+
+const initialize = () =>
+  postMessage({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion, capabilities: {}, clientInfo: { name: 'smoke-drain', version: '1.0.0' } }
+  });
+
+const openSession = async () => {
+  const { sessionId } = await initialize();
+  await postMessage({ jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId);
+  return sessionId;
+};
+
+const waitForExit = async (child, withinMs) => {
+  if (child.exitCode !== null) {
+    return child.exitCode;
+  }
+
+  const exited = new Promise((resolve) => child.once('exit', (code) => resolve(code)));
+  const timedOut = sleep(withinMs).then(() => 'timeout');
+  const result = await Promise.race([exited, timedOut]);
+  if (result === 'timeout') {
+    throw new Error(`Server did not exit within ${withinMs}ms of draining.`);
+  }
+  return result;
+};
+
+let child;
+
+const cleanup = () => {
+  if (child && child.exitCode === null && !child.killed) {
+    child.kill('SIGKILL');
+  }
+};
+
+process.on('exit', cleanup);
+process.on('SIGINT', cleanup);
+process.on('SIGTERM', cleanup);
+
+try {
+  // A session that disconnects during the grace period lets the server exit early.
+  child = startServer(30_000);
+  await waitForHealth();
+
+  const sessionId = await openSession();
+  const stream = await fetch(serverUrl, {
+    headers: {
+      accept: 'text/event-stream',
+      'mcp-session-id': sessionId,
+      'mcp-protocol-version': protocolVersion
+    }
+  });
+
+  child.kill('SIGTERM');
+  await sleep(300);
+
+  const [livez, readyz] = await Promise.all([fetch(`${baseUrl}/livez`), fetch(`${baseUrl}/readyz`)]);
+  if (livez.status !== 200 || readyz.status !== 503) {
+    throw new Error(
+      `Expected /livez 200 and /readyz 503 while draining, got ${livez.status}/${readyz.status}`
+    );
+  }
+
+  const refused = await initialize();
+  if (refused.status !== 503 || !refused.retryAfter || !refused.text.includes('"reason":"draining"')) {
+    throw new Error(`initialize was not refused while draining: ${refused.status} ${refused.text}`);
+  }
+
+  const call = await postMessage(
+    {
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'tools/call',
+      params: { name: 'calculate', arguments: { operation: 'multiply', left: 6, right: 7 } }
+    },
+    sessionId
+  );
+  if (!call.text.includes('"result":42')) {
+    throw new Error(`Existing session could not finish its work while draining: ${call.text}`);
+  }
+
+  await fetch(serverUrl, {
+    method: 'DELETE',
+    headers: { 'mcp-session-id': sessionId, 'mcp-protocol-version': protocolVersion }
+  });
+  await stream.body?.cancel();
+
+  const earlyExitCode = await waitForExit(child, 5000);
+  if (earlyExitCode !== 0) {
+    throw new Error(`Draining server exited with code ${earlyExitCode}`);
+  }
+
+  // A session that stays open is closed once the grace period runs out.
+  child = startServer(1000);
+  await waitForHealth();
+  await openSession();
+
+  child.kill('SIGTERM');
+  const graceExitCode = await waitForExit(child, 5000);
+  if (graceExitCode !== 0) {
+    throw new Error(`Server exited with code ${graceExitCode} after the grace period`);
+  }
+
+  console.log('Drain smoke test passed.');
+} finally {
+  cleanup();
+}
@@ -0,0 +1,141 @@
+import { spawn } from 'node:child_process';
+import process from 'node:process';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+const port = Number(process.env.SMOKE_PORT ?? 3219);
+const serverUrl = `http://127.0.0.1:${port}/mcp`;
+const protocolVersion = '2025-11-25';
+const sessionBurst = 3;
+
+const waitForHealth = async () => {
+  for (let attempt = 0; attempt < 30; attempt += 1) {
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}/health`);
+      if (response.ok) {
+        return;
+      }
+    } catch {
+      // Keep retrying while process boots.
+    }
+    await sleep(200);
+  }
+
+  throw new Error('Server did not become healthy in time.');
+};
+
+// Buckets refill slowly enough that nothing comes back while the checks run.
+const child = spawn('node', ['dist/server.js'], {
+  stdio: 'inherit',
+  env: {
+    ...process.env,
+    PORT: String(port),
+    HOST: '127.0.0.1',
+    RATE_LIMIT_SESSION_BURST: String(sessionBurst),
+    RATE_LIMIT_SESSION_PER_SEC: '0.01',
+    RATE_LIMIT_INITIALIZE_BURST: '2',
+    RATE_LIMIT_INITIALIZE_PER_SEC: '0.01'
+  }
+});
+
+const cleanup = () => {
+  if (!child.killed) {
+    child.kill('SIGTERM');
+  }
+};
+
+process.on('exit', cleanup);
+process.on('SIGINT', cleanup);
+process.on('SIGTERM', cleanup);
+
+const postMessage = async (message, sessionId) => {
+  const headers = {
+    'content-type': 'application/json',
+    accept: 'application/json, text/event-stream'
+  };
+  if (sessionId) {
+    headers['mcp-session-id'] = sessionId;
+    headers['mcp-protocol-version'] = protocolVersion;
+  }
+
+  const response = await fetch(serverUrl, { method: 'POST', headers, body: JSON.stringify(message) });
+  return {
+    status: response.status,
+    retryAfter: response.headers.get('retry-after'),
+    sessionId: response.headers.get('mcp-session-id') ?? sessionId,
+    text: await response.text()
+  };
+};
+
+const messagesFrom = (sseText) =>
+  [...sseText.matchAll(/^data: (.+)$/gm)].map((match) => JSON.parse(match[1]));
+
+const initialize = () =>
+  postMessage({
+    jsonrpc: '2.0',
+    id: 'init',
+    method: 'initialize',
+    params: { protocolVersion, capabilities: {}, clientInfo: { name: 'smoke-rate-limit', version: '1.0.0' } }
+  });
+
+const calculate = (id, left) => ({
+  jsonrpc: '2.0',
+  id,
+  method: 'tools/call',
+  params: { name: 'calculate', arguments: { operation: 'add', left, right: 1 } }
+});
+
+const assertRateLimited = (response, scope) => {
+  const error = JSON.parse(response.text).error;
+  if (
+    response.status !== 429 ||
+    !(Number(response.retryAfter) >= 1) ||
+    error?.data?.scope !== scope ||
+    !(error.data.retryAfterMs > 0)
+  ) {
+    throw new Error(
+      `Expected 429 for ${scope} with Retry-After, got ${response.status} (${response.retryAfter}): ${response.text}`
+    );
+  }
+};
+
+try {
+  await waitForHealth();
+
+  const { sessionId } = await initialize();
+  await postMessage({ jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId);
+
+  // The POST is admitted while tokens remain; requests in the batch past the burst are answered
+  // on the same stream with JSON-RPC errors instead.
+  const batch = await postMessage(
+    [1, 2, 3, 4, 5].map((left) => calculate(`batch-${left}`, left)),
+    sessionId
+  );
+  const responses = messagesFrom(batch.text).filter((message) => message.id !== undefined);
+  const answered = responses.filter((message) => message.result?.structuredContent?.result !== undefined);
+  const limited = responses.filter(
+    (message) => message.error?.code === -32_000 && message.error.data?.scope === 'session'
+  );
+  if (
+    batch.status !== 200 ||
+    answered.length !== sessionBurst ||
+    limited.length !== 5 - sessionBurst ||
+    !limited.every((message) => message.error.data.retryAfterMs > 0)
+  ) {
+    throw new Error(`Unexpected batch responses past the session limit: ${batch.text}`);
+  }
+
+  // With the session bucket empty the next POST is refused before it reaches the session.
+  assertRateLimited(await postMessage(calculate('after-batch', 9), sessionId), 'session');
+
+  // The first initialize used one of two tokens for this address.
+  const second = await initialize();
+  if (second.status !== 200) {
+    throw new Error(`Second initialize was refused: ${second.status} ${second.text}`);
+  }
+  assertRateLimited(await initialize(), 'initialize');
+
+  console.log('Rate limit smoke test passed.');
+} finally {
+  cleanup();
+  await sleep(250);
+}
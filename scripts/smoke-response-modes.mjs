@@ -0,0 +1,206 @@
+import { spawn } from 'node:child_process';
+import process from 'node:process';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import { CallToolResultSchema, Client, StreamableHTTPClientTransport } from '@modelcontextprotocol/client';
+
+const port = Number(process.env.SMOKE_PORT ?? 3216);
+const serverUrl = `http://127.0.0.1:${port}/mcp`;
+const protocolVersion = '2025-11-25';
+
+const waitForHealth = async () => {
+  for (let attempt = 0; attempt < 30; attempt += 1) {
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}/health`);
+      if (response.ok) {
+        return;
+      }
+    } catch {
+      // Keep retrying while process boots.
+    }
+    await sleep(200);
+  }
+
+  throw new Error('Server did not become healthy in time.');
+};
+
+const startServer = (responseMode) =>
+  spawn('node', ['dist/server.js'], {
+    stdio: 'inherit',
+    env: {
+      ...process.env,
+      PORT: String(port),
+      HOST: '127.0.0.1',
+      RESPONSE_MODE: responseMode,
+      SHUTDOWN_GRACE_MS: '0'
+    }
+  });
+
+const post = async (body, sessionId) => {
+  const headers = {
+    'content-type': 'application/json',
+    accept: 'application/json, text/event-stream'
+  };
+  if (sessionId) {
+    headers['mcp-session-id'] = sessionId;
+    headers['mcp-protocol-version'] = protocolVersion;
+  }
+
+  const response = await fetch(serverUrl, { method: 'POST', headers, body: JSON.stringify(body) });
+  const text = await response.text();
+  const contentType = response.headers.get('content-type') ?? '';
+  const messages = contentType.startsWith('text/event-stream')
+    ? [...text.matchAll(/^data: (.+)$/gm)].map((match) => JSON.parse(match[1]))
+    : text
+      ? [JSON.parse(text)].flat()
+      : [];
+  return {
+    status: response.status,
+    contentType,
+    sessionId: response.headers.get('mcp-session-id') ?? sessionId,
+    responses: messages.filter((message) => 'id' in message && !('method' in message))
+  };
+};
+
+const callTool = (id, name, args) => ({
+  jsonrpc: '2.0',
+  id,
+  method: 'tools/call',
+  params: { name, arguments: args }
+});
+
+// The same tool calls run in both modes; only the shape of the HTTP response may differ.
+const checkMode = async (responseMode) => {
+  const expectedContentType = responseMode === 'json' ? 'application/json' : 'text/event-stream';
+
+  const client = new Client({ name: `smoke-${responseMode}`, version: '1.0.0' });
+  const transport = new StreamableHTTPClientTransport(new URL(serverUrl));
+  await client.connect(transport);
+
+  const { tools } = await client.listTools();
+  const toolNames = tools.map((tool) => tool.name);
+  for (const name of ['calculate', 'evaluate-expression', 'compute-series', 'history-summary']) {
+    if (!toolNames.includes(name)) {
+      throw new Error(`[${responseMode}] ${name} not listed: ${toolNames.join(', ')}`);
+    }
+  }
+
+  const sum = await client.callTool({
+    name: 'calculate',
+    arguments: { operation: 'add', left: 2, right: 3 }
+  });
+  const expression = await client.callTool({
+    name: 'evaluate-expression',
+    arguments: { expression: '0.1 + 0.2', mode: 'rational' }
+  });
+  // callTool would check the error result against the output schema, so go through request().
+  const divideByZero = await client.request(
+    {
+      method: 'tools/call',
+      params: { name: 'calculate', arguments: { operation: 'divide', left: 1, right: 0 } }
+    },
+    CallToolResultSchema
+  );
+  if (
+    sum.structuredContent?.result !== 5 ||
+    expression.structuredContent?.result !== '3/10' ||
+    divideByZero.structuredContent?.error?.code !== 'division_by_zero'
+  ) {
+    throw new Error(
+      `[${responseMode}] unexpected results: ${JSON.stringify({ sum, expression, divideByZero })}`
+    );
+  }
+
+  // In json mode progress reaches the client on the GET stream, so the last update can trail the
+  // response on the POST and is then ignored by the client.
+  const progress = [];
+  const series = await client.callTool(
+    { name: 'compute-series', arguments: { series: 'basel', terms: 1000, steps: 4, delayMs: 50 } },
+    undefined,
+    { onprogress: (notification) => progress.push(notification.progress) }
+  );
+  const expectedProgress = responseMode === 'json' ? progress.length > 0 : progress.at(-1) === 1000;
+  if (!expectedProgress || typeof series.structuredContent?.value !== 'number') {
+    throw new Error(`[${responseMode}] compute-series progress missing: ${JSON.stringify(progress)}`);
+  }
+
+  const single = await post(callTool(10, 'history-summary', { limit: 5 }), transport.sessionId);
+  if (
+    !single.contentType.startsWith(expectedContentType) ||
+    single.responses[0]?.result?.structuredContent?.count !== 1
+  ) {
+    throw new Error(`[${responseMode}] unexpected tools/call response: ${JSON.stringify(single)}`);
+  }
+
+  const batch = await post(
+    [
+      callTool(11, 'calculate', { operation: 'multiply', left: 6, right: 7 }),
+      callTool(12, 'calculate', { operation: 'subtract', left: 9, right: 4 })
+    ],
+    transport.sessionId
+  );
+  const batchResults = Object.fromEntries(
+    batch.responses.map((response) => [response.id, response.result?.structuredContent?.result])
+  );
+  if (
+    !batch.contentType.startsWith(expectedContentType) ||
+    batchResults[11] !== 42 ||
+    batchResults[12] !== 5
+  ) {
+    throw new Error(`[${responseMode}] unexpected batch response: ${JSON.stringify(batch)}`);
+  }
+
+  await transport.terminateSession();
+  await client.close();
+
+  const initialize = {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion, capabilities: {}, clientInfo: { name: 'smoke-batch', version: '1.0.0' } }
+  };
+  const batchedInitialize = await post([initialize]);
+  if (batchedInitialize.status !== 200 || !batchedInitialize.sessionId) {
+    throw new Error(
+      `[${responseMode}] batched initialize was rejected: ${JSON.stringify(batchedInitialize)}`
+    );
+  }
+
+  const mixedInitialize = await post([initialize, callTool(2, 'history-summary', {})]);
+  if (mixedInitialize.status !== 400) {
+    throw new Error(`[${responseMode}] initialize batched with a call returned ${mixedInitialize.status}.`);
+  }
+};
+
+let child;
+
+const stopServer = async () => {
+  if (child && child.exitCode === null && !child.killed) {
+    child.kill('SIGTERM');
+    await new Promise((resolve) => child.once('exit', resolve));
+  }
+};
+
+const cleanup = () => {
+  if (child && child.exitCode === null && !child.killed) {
+    child.kill('SIGTERM');
+  }
+};
+
+process.on('exit', cleanup);
+process.on('SIGINT', cleanup);
+process.on('SIGTERM', cleanup);
+
+try {
+  for (const responseMode of ['sse', 'json']) {
+    child = startServer(responseMode);
+    await waitForHealth();
+    await checkMode(responseMode);
+    await stopServer();
+  }
+
+  console.log('Response mode smoke test passed.');
+} finally {
+  cleanup();
+  await sleep(250);
+}
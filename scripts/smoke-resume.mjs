@@ -0,0 +1,262 @@
+import { spawn } from 'node:child_process';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+const port = Number(process.env.SMOKE_PORT ?? 3212);
+const serverUrl = `http://127.0.0.1:${port}/mcp`;
+const protocolVersion = '2025-11-25';
+const dataDir = await mkdtemp(path.join(os.tmpdir(), 'mcp-resume-'));
+const maxEventsPerStream = 8;
+const maxEventAgeMs = 1000;
+
+const waitForHealth = async () => {
+  for (let attempt = 0; attempt < 30; attempt += 1) {
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}/health`);
+      if (response.ok) {
+        return;
+      }
+    } catch {
+      // Keep retrying while process boots.
+    }
+    await sleep(200);
+  }
+
+  throw new Error('Server did not become healthy in time.');
+};
+
+const startServer = (env = {}) =>
+  spawn('node', ['dist/server.js'], {
+    stdio: 'inherit',
+    env: {
+      ...process.env,
+      PORT: String(port),
+      HOST: '127.0.0.1',
+      EVENT_STORE: 'file',
+      EVENT_STORE_DIR: path.join(dataDir, 'events'),
+      SESSION_STORE: 'file',
+      SESSION_STORE_DIR: path.join(dataDir, 'sessions'),
+      EVENT_STORE_MAX_EVENTS: String(maxEventsPerStream),
+      SHUTDOWN_GRACE_MS: '0',
+      ...env
+    }
+  });
+
+const postMessage = async (message, sessionId) => {
+  const headers = {
+    'content-type': 'application/json',
+    accept: 'application/json, text/event-stream'
+  };
+  if (sessionId) {
+    headers['mcp-session-id'] = sessionId;
+    headers['mcp-protocol-version'] = protocolVersion;
+  }
+
+  const response = await fetch(serverUrl, { method: 'POST', headers, body: JSON.stringify(message) });
+  return { sessionId: response.headers.get('mcp-session-id') ?? sessionId, text: await response.text() };
+};
+
+const eventIdsFrom = (sseText) => [...sseText.matchAll(/^id: (.+)$/gm)].map((match) => match[1]);
+
+const messagesFrom = (sseText) =>
+  [...sseText.matchAll(/^data: (.+)$/gm)].map((match) => JSON.parse(match[1]));
+
+const resumeFrom = (sessionId, lastEventId) =>
+  fetch(serverUrl, {
+    headers: {
+      accept: 'text/event-stream',
+      'mcp-session-id': sessionId,
+      'mcp-protocol-version': protocolVersion,
+      'last-event-id': lastEventId
+    },
+    signal: AbortSignal.timeout(5000)
+  });
+
+const readUntil = async (response, predicate) => {
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+
+  try {
+    while (!predicate(text)) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+      text += decoder.decode(value, { stream: true });
+    }
+  } finally {
+    await reader.cancel();
+  }
+
+  return text;
+};
+
+let child = startServer();
+
+const cleanup = () => {
+  if (child.exitCode === null && !child.killed) {
+    child.kill('SIGTERM');
+  }
+};
+
+process.on('exit', cleanup);
+process.on('SIGINT', cleanup);
+process.on('SIGTERM', cleanup);
+
+try {
+  await waitForHealth();
+
+  const { sessionId } = await postMessage({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion, capabilities: {}, clientInfo: { name: 'smoke-resume', version: '1.0.0' } }
+  });
+  await postMessage({ jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId);
+
+  const call = await postMessage(
+    {
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'tools/call',
+      params: { name: 'calculate', arguments: { operation: 'multiply', left: 6, right: 7 } }
+    },
+    sessionId
+  );
+
+  const [primingEventId] = eventIdsFrom(call.text);
+  if (!primingEventId) {
+    throw new Error(`No resumable event IDs in tools/call stream: ${call.text}`);
+  }
+
+  // Each call in a batch changes session state, so their saves overlap.
+  const batch = await postMessage(
+    [1, 2, 3, 4, 5, 6].map((left) => ({
+      jsonrpc: '2.0',
+      id: `batch-${left}`,
+      method: 'tools/call',
+      params: { name: 'calculate', arguments: { operation: 'add', left, right: 10 } }
+    })),
+    sessionId
+  );
+  if (messagesFrom(batch.text).filter((message) => message.result).length !== 6) {
+    throw new Error(`Batch of calculations failed: ${batch.text}`);
+  }
+  await sleep(250);
+
+  // Simulate a crash between the client losing its stream and reconnecting.
+  child.kill('SIGKILL');
+  await new Promise((resolve) => child.once('exit', resolve));
+
+  child = startServer();
+  await waitForHealth();
+
+  const resumed = await resumeFrom(sessionId, primingEventId);
+  if (resumed.status !== 200) {
+    throw new Error(`Resume after restart failed with ${resumed.status}: ${await resumed.text()}`);
+  }
+
+  const replayed = messagesFrom(await readUntil(resumed, (text) => text.includes('"id":2')));
+  const result = replayed.find((message) => message.id === 2)?.result;
+  if (result?.structuredContent?.result !== 42) {
+    throw new Error(`tools/call result was not replayed after restart: ${JSON.stringify(replayed)}`);
+  }
+
+  const history = await postMessage(
+    {
+      jsonrpc: '2.0',
+      id: 3,
+      method: 'tools/call',
+      params: { name: 'history-summary', arguments: { limit: 10 } }
+    },
+    sessionId
+  );
+  const summary = messagesFrom(history.text).find((message) => message.id === 3)?.result;
+  if (!history.text.includes('6 * 7 = 42') || summary?.structuredContent?.count !== 7) {
+    throw new Error(`Session history was not restored: ${history.text}`);
+  }
+
+  // A stream longer than the per-stream limit keeps only its newest events. Resuming from the
+  // newest evicted event misses nothing; resuming from one before it would skip an evicted event.
+  const series = await postMessage(
+    {
+      jsonrpc: '2.0',
+      id: 4,
+      method: 'tools/call',
+      params: {
+        name: 'compute-series',
+        arguments: { series: 'basel', terms: 1000, steps: 10, delayMs: 0 },
+        _meta: { progressToken: 'evict' }
+      }
+    },
+    sessionId
+  );
+  const seriesEventIds = eventIdsFrom(series.text);
+  const oldestKept = seriesEventIds.at(-maxEventsPerStream);
+  const newestEvicted = seriesEventIds.at(-maxEventsPerStream - 1);
+  const olderEvicted = seriesEventIds.at(-maxEventsPerStream - 2);
+  if (!oldestKept || !newestEvicted || !olderEvicted) {
+    throw new Error(`compute-series stream was too short to evict events: ${series.text}`);
+  }
+
+  const afterNewestEvicted = await resumeFrom(sessionId, newestEvicted);
+  const replayedSeries = afterNewestEvicted.ok
+    ? await readUntil(afterNewestEvicted, (text) => text.includes('"id":4'))
+    : await afterNewestEvicted.text();
+  if (
+    afterNewestEvicted.status !== 200 ||
+    JSON.stringify(eventIdsFrom(replayedSeries)) !== JSON.stringify(seriesEventIds.slice(-maxEventsPerStream))
+  ) {
+    throw new Error(
+      `Resuming from the newest evicted event did not replay every kept event (${afterNewestEvicted.status}): ${replayedSeries}`
+    );
+  }
+
+  const afterOlderEvicted = await resumeFrom(sessionId, olderEvicted);
+  await afterOlderEvicted.body?.cancel();
+  if (afterOlderEvicted.status !== 410) {
+    throw new Error(`Expected 410 when a later event was evicted, got ${afterOlderEvicted.status}.`);
+  }
+
+  // With a short max age a quiet stream loses every event, but a client that saw the last one
+  // has missed nothing and can still resume.
+  child.kill('SIGTERM');
+  await new Promise((resolve) => child.once('exit', resolve));
+  child = startServer({ EVENT_STORE_MAX_AGE_MS: String(maxEventAgeMs) });
+  await waitForHealth();
+
+  const quiet = await postMessage(
+    {
+      jsonrpc: '2.0',
+      id: 5,
+      method: 'tools/call',
+      params: { name: 'calculate', arguments: { operation: 'add', left: 1, right: 2 } }
+    },
+    sessionId
+  );
+  const quietEventIds = eventIdsFrom(quiet.text);
+  if (quietEventIds.length < 2) {
+    throw new Error(`calculate stream had too few events to check expiry: ${quiet.text}`);
+  }
+  await sleep(maxEventAgeMs + 500);
+
+  const caughtUp = await resumeFrom(sessionId, quietEventIds.at(-1));
+  await caughtUp.body?.cancel();
+  const behind = await resumeFrom(sessionId, quietEventIds[0]);
+  await behind.body?.cancel();
+  if (caughtUp.status !== 200 || behind.status !== 410) {
+    throw new Error(
+      `Expected 200 from the last expired event and 410 from an earlier one, got ${caughtUp.status} and ${behind.status}.`
+    );
+  }
+
+  console.log('Resume smoke test passed.');
+} finally {
+  cleanup();
+  await sleep(250);
+  await rm(dataDir, { recursive: true, force: true });
+}
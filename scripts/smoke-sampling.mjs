@@ -0,0 +1,129 @@
+import { execFile, spawn } from 'node:child_process';
+import process from 'node:process';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { promisify } from 'node:util';
+
+import { CallToolResultSchema, Client, StreamableHTTPClientTransport } from '@modelcontextprotocol/client';
+
+const port = Number(process.env.SMOKE_PORT ?? 3223);
+const serverUrl = `http://127.0.0.1:${port}/mcp`;
+
+const waitForHealth = async () => {
+  for (let attempt = 0; attempt < 30; attempt += 1) {
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}/health`);
+      if (response.ok) {
+        return;
+      }
+    } catch {
+      // Keep retrying while process boots.
+    }
+    await sleep(200);
+  }
+
+  throw new Error('Server did not become healthy in time.');
+};
+
+const child = spawn('node', ['dist/server.js'], {
+  stdio: 'inherit',
+  env: {
+    ...process.env,
+    PORT: String(port),
+    HOST: '127.0.0.1'
+  }
+});
+
+const cleanup = () => {
+  if (!child.killed) {
+    child.kill('SIGTERM');
+  }
+};
+
+process.on('exit', cleanup);
+process.on('SIGINT', cleanup);
+process.on('SIGTERM', cleanup);
+
+// The demo client pretty-prints each result as `Label: {` up to a closing `}` at the start of a line.
+const printed = (output, label) => {
+  const match = output.match(new RegExp(`^${label}: (\\{[\\s\\S]*?^\\})$`, 'm'));
+  if (!match) {
+    throw new Error(`Demo client did not print '${label}':\n${output}`);
+  }
+  return JSON.parse(match[1]);
+};
+
+const connect = async (capabilities, onElicit) => {
+  const client = new Client({ name: 'smoke-sampling', version: '1.0.0' }, { capabilities });
+  if (onElicit) {
+    client.setRequestHandler('elicitation/create', onElicit);
+  }
+  await client.connect(new StreamableHTTPClientTransport(new URL(serverUrl)));
+  return client;
+};
+
+const callTool = (client, name, args) =>
+  client.request({ method: 'tools/call', params: { name, arguments: args } }, CallToolResultSchema);
+
+const assertToolError = (result, code, description) => {
+  if (result.isError !== true || result.structuredContent?.error?.code !== code) {
+    throw new Error(`Expected '${code}' for ${description}, got ${JSON.stringify(result)}`);
+  }
+};
+
+try {
+  await waitForHealth();
+
+  // Without a terminal the demo client's handlers answer on their own: the offline model replies to
+  // sampling, and elicitation accepts with the default operand and confirms the large-operand warning.
+  const { stdout } = await promisify(execFile)('node', ['dist/demo-client.js', serverUrl], {
+    timeout: 30_000
+  });
+  const explanation = printed(stdout, 'Explanation');
+  if (
+    explanation.source !== 'sampling' ||
+    explanation.model !== 'demo-offline' ||
+    !explanation.explanation.includes('7 * 6 = 42')
+  ) {
+    throw new Error(`Unexpected sampled explanation: ${JSON.stringify(explanation)}`);
+  }
+  const interactive = printed(stdout, 'Interactive response');
+  if (
+    interactive.formula !== `${2 ** 60} / 4 = ${2 ** 58}` ||
+    (stdout.match(/^Elicitation request:/gm) ?? []).length !== 2
+  ) {
+    throw new Error(`Unexpected interactive result after elicitation:\n${stdout}`);
+  }
+
+  // A client without sampling gets the built-in explanation, and one without elicitation is told
+  // which operand to pass instead of being asked.
+  const plain = await connect({});
+  const recorded = await callTool(plain, 'calculate', { operation: 'add', left: 2, right: 3 });
+  const fallback = await callTool(plain, 'explain-calculation-record', {
+    id: recorded.structuredContent?.id
+  });
+  if (
+    fallback.structuredContent?.source !== 'fallback' ||
+    fallback.structuredContent.explanation !== '2 plus 3 is 5.'
+  ) {
+    throw new Error(`Unexpected fallback explanation: ${JSON.stringify(fallback)}`);
+  }
+  assertToolError(
+    await callTool(plain, 'calculate-interactive', { operation: 'add', left: 2 }),
+    'missing_operand',
+    'a missing operand without elicitation'
+  );
+  await plain.close();
+
+  const declining = await connect({ elicitation: { form: {} } }, async () => ({ action: 'decline' }));
+  assertToolError(
+    await callTool(declining, 'calculate-interactive', { operation: 'add', left: 2 }),
+    'decline',
+    'a declined elicitation'
+  );
+  await declining.close();
+
+  console.log('Sampling and elicitation smoke test passed.');
+} finally {
+  cleanup();
+  await sleep(250);
+}
@@ -1,4 +1,5 @@
 import { spawn } from 'node:child_process';
+import { request } from 'node:http';
 import process from 'node:process';
 import { setTimeout as sleep } from 'node:timers/promises';
 
@@ -6,11 +7,63 @@ import {
   CallToolResultSchema,
   Client,
   ListToolsResultSchema,
+  SSEClientTransport,
+  StdioClientTransport,
   StreamableHTTPClientTransport
 } from '@modelcontextprotocol/client';
 
 const port = Number(process.env.SMOKE_PORT ?? 3211);
 const serverUrl = new URL(`http://127.0.0.1:${port}/mcp`);
+const maxBodyBytes = 16 * 1024;
+
+const messagesFrom = (sseText) =>
+  [...sseText.matchAll(/^data: (.+)$/gm)].map((match) => JSON.parse(match[1]));
+
+const readUntil = async (reader, predicate) => {
+  const decoder = new TextDecoder();
+  let text = '';
+  while (!predicate(text)) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text;
+};
+
+// `fetch` will not send a forged Host header, so the origin checks go through `node:http`.
+// A string body is sent with its `content-length`; an array is streamed chunk by chunk without one.
+const sendRaw = (
+  method,
+  headers,
+  body = method === 'POST' ? JSON.stringify({ jsonrpc: '2.0', id: 0, method: 'ping' }) : undefined
+) =>
+  new Promise((resolve, reject) => {
+    const req = request({ host: '127.0.0.1', port, path: '/mcp', method, headers }, (res) => {
+      let text = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk) => {
+        text += chunk;
+      });
+      res.on('end', () => resolve({ status: res.statusCode, headers: res.headers, text }));
+    });
+    req.once('error', reject);
+    if (Array.isArray(body)) {
+      body.forEach((chunk) => req.write(chunk));
+      req.end();
+    } else {
+      req.end(body);
+    }
+  });
+
+const countToolCalls = async (tool, outcome) => {
+  const metrics = await (await fetch(`http://127.0.0.1:${port}/metrics`)).text();
+  const line = metrics
+    .split('\n')
+    .find((entry) => entry.startsWith(`mcp_tool_calls_total{tool="${tool}",outcome="${outcome}"}`));
+  return Number(line?.split(' ').at(-1) ?? 0);
+};
 
 const waitForHealth = async () => {
   for (let attempt = 0; attempt < 30; attempt += 1) {
@@ -28,12 +81,55 @@ const waitForHealth = async () => {
   throw new Error('Server did not become healthy in time.');
 };
 
+// `--stdio` launches the server the way a desktop client would and runs the calculate check over it.
+if (process.argv.includes('--stdio')) {
+  const transport = new StdioClientTransport({
+    command: 'node',
+    args: ['dist/server.js', '--transport', 'stdio'],
+    stderr: 'pipe'
+  });
+  let stderr = '';
+  transport.stderr?.on('data', (chunk) => {
+    stderr += chunk;
+  });
+
+  const client = new Client({ name: 'smoke-stdio-client', version: '1.0.0' });
+  const errors = [];
+  client.onerror = (error) => errors.push(error);
+  await client.connect(transport);
+
+  const tools = await client.request({ method: 'tools/list', params: {} }, ListToolsResultSchema);
+  const result = await client.request(
+    {
+      method: 'tools/call',
+      params: { name: 'calculate', arguments: { operation: 'add', left: 2, right: 3 } }
+    },
+    CallToolResultSchema
+  );
+  if (!tools.tools.some((tool) => tool.name === 'calculate') || result.structuredContent?.result !== 5) {
+    throw new Error(`Unexpected stdio calculation result: ${JSON.stringify(result)}`);
+  }
+
+  // Closing stdin is the shutdown signal; anything but JSON-RPC on stdout would show up as an error.
+  await client.close();
+  if (errors.length > 0) {
+    throw new Error(`stdio client reported errors: ${errors.map(String).join('; ')}`);
+  }
+  if (!stderr.includes('"msg":"shutting down","signal":"stdin-closed"')) {
+    throw new Error(`stdio server did not shut down after stdin closed:\n${stderr}`);
+  }
+
+  console.log('Smoke test passed (stdio).');
+  process.exit(0);
+}
+
 const child = spawn('node', ['dist/server.js', '--port', String(port)], {
   stdio: 'inherit',
   env: {
     ...process.env,
     PORT: String(port),
-    HOST: '127.0.0.1'
+    HOST: '127.0.0.1',
+    MAX_BODY_BYTES: String(maxBodyBytes)
   }
 });
 
@@ -50,6 +146,75 @@ process.on('SIGTERM', cleanup);
 try {
   await waitForHealth();
 
+  // DNS rebinding shows up as a foreign Host or a browser Origin that is not loopback.
+  const postHeaders = { 'content-type': 'application/json', accept: 'application/json, text/event-stream' };
+  const foreignOrigin = await sendRaw('POST', { ...postHeaders, origin: 'https://attacker.example' });
+  const foreignHost = await sendRaw('POST', { ...postHeaders, host: `attacker.example:${port}` });
+  if (foreignOrigin.status !== 403 || foreignHost.status !== 403) {
+    throw new Error(
+      `Expected 403 for a foreign Origin and Host, got ${foreignOrigin.status} and ${foreignHost.status}.`
+    );
+  }
+
+  const localOrigin = `http://localhost:${port}`;
+  const preflight = await sendRaw('OPTIONS', {
+    origin: localOrigin,
+    'access-control-request-method': 'POST',
+    'access-control-request-headers': 'content-type, mcp-session-id'
+  });
+  const allowedHeaders = preflight.headers['access-control-allow-headers'] ?? '';
+  if (
+    preflight.status !== 204 ||
+    preflight.headers['access-control-allow-origin'] !== localOrigin ||
+    !preflight.headers['access-control-allow-methods']?.includes('POST') ||
+    !allowedHeaders.includes('mcp-session-id') ||
+    !preflight.headers['access-control-expose-headers']?.includes('mcp-session-id')
+  ) {
+    throw new Error(
+      `Unexpected preflight response: ${preflight.status} ${JSON.stringify(preflight.headers)}`
+    );
+  }
+
+  // Unusable bodies and headers are refused with a JSON-RPC error before any session is involved.
+  const oversized = JSON.stringify({
+    jsonrpc: '2.0',
+    id: 0,
+    method: 'ping',
+    params: { pad: 'x'.repeat(maxBodyBytes) }
+  });
+  const rejections = [
+    { case: 'a declared length over the limit', body: oversized, status: 413, code: -32_600 },
+    {
+      case: 'a streamed body over the limit',
+      body: oversized.match(/.{1,4096}/g),
+      status: 413,
+      code: -32_600
+    },
+    { case: 'a text/plain body', headers: { 'content-type': 'text/plain' }, status: 415, code: -32_000 },
+    { case: 'a JSON-only Accept', headers: { accept: 'application/json' }, status: 406, code: -32_000 },
+    { case: 'an empty body', body: '', status: 400, code: -32_600 }
+  ];
+  const rejectionMessages = {
+    413: `Request body exceeds the ${maxBodyBytes} byte limit.`,
+    415: 'Unsupported Media Type: content-type must be application/json.',
+    406: 'Not Acceptable: client must accept both application/json and text/event-stream.',
+    400: 'Request body is empty.'
+  };
+  for (const rejection of rejections) {
+    const response = await sendRaw('POST', { ...postHeaders, ...rejection.headers }, rejection.body);
+    const body = JSON.parse(response.text);
+    if (
+      response.status !== rejection.status ||
+      body.id !== null ||
+      body.error?.code !== rejection.code ||
+      body.error.message !== rejectionMessages[rejection.status]
+    ) {
+      throw new Error(
+        `Expected ${rejection.status} with ${rejection.code} for ${rejection.case}, got ${response.status}: ${response.text}`
+      );
+    }
+  }
+
   const client = new Client({ name: 'smoke-client', version: '1.0.0' });
   const transport = new StreamableHTTPClientTransport(serverUrl);
 
@@ -92,6 +257,243 @@ try {
     throw new Error(`Unexpected calculation result: ${JSON.stringify(result)}`);
   }
 
+  const ids = await client.complete({
+    ref: { type: 'ref/resource', uri: 'calc://history/{id}' },
+    argument: { name: 'id', value: 'calc_' }
+  });
+  const formulas = await client.complete({
+    ref: { type: 'ref/prompt', name: 'explain-calculation' },
+    argument: { name: 'formula', value: '2 +' }
+  });
+  if (ids.completion.values[0] !== 'calc_1' || formulas.completion.values[0] !== '2 + 3 = 5') {
+    throw new Error(`Unexpected completions: ${JSON.stringify({ ids, formulas })}`);
+  }
+
+  const divideByZero = await client.request(
+    {
+      method: 'tools/call',
+      params: { name: 'calculate', arguments: { operation: 'divide', left: 1, right: 0 } }
+    },
+    CallToolResultSchema
+  );
+  if (!divideByZero.isError || divideByZero.structuredContent?.error?.code !== 'division_by_zero') {
+    throw new Error(`Unexpected division by zero result: ${JSON.stringify(divideByZero)}`);
+  }
+
+  const overflow = await client.request(
+    {
+      method: 'tools/call',
+      params: { name: 'calculate', arguments: { operation: 'multiply', left: 1e308, right: 10 } }
+    },
+    CallToolResultSchema
+  );
+  if (!overflow.isError || overflow.structuredContent?.error?.code !== 'non_finite_result') {
+    throw new Error(`Unexpected overflow result: ${JSON.stringify(overflow)}`);
+  }
+
+  // Method names the SDK does not define share one label, so clients cannot grow the series count.
+  const unknownMethod = await client
+    .request({ method: 'smoke/made-up-method', params: {} }, CallToolResultSchema)
+    .then(
+      () => 'completed',
+      () => 'rejected'
+    );
+  const jsonRpcMetrics = (await (await fetch(`http://127.0.0.1:${port}/metrics`)).text())
+    .split('\n')
+    .filter((entry) => entry.startsWith('mcp_jsonrpc_requests_total{'));
+  if (
+    unknownMethod !== 'rejected' ||
+    jsonRpcMetrics.some((entry) => entry.includes('smoke/made-up-method')) ||
+    !jsonRpcMetrics.some((entry) => entry.includes('method="other"'))
+  ) {
+    throw new Error(`Unknown method was not labelled "other": ${jsonRpcMetrics.join('\n')}`);
+  }
+
+  const progress = [];
+  const series = await client.request(
+    {
+      method: 'tools/call',
+      params: { name: 'compute-series', arguments: { series: 'basel', terms: 1000, steps: 4, delayMs: 0 } }
+    },
+    CallToolResultSchema,
+    { onprogress: (notification) => progress.push(notification) }
+  );
+
+  if (progress.length !== 4 || progress.at(-1)?.progress !== 1000 || progress.at(-1)?.total !== 1000) {
+    throw new Error(`Unexpected progress notifications: ${JSON.stringify(progress)}`);
+  }
+  const seriesValue = series.structuredContent?.value;
+  if (typeof seriesValue !== 'number' || Math.abs(seriesValue - Math.PI ** 2 / 6) > 1e-2) {
+    throw new Error(`Unexpected series result: ${JSON.stringify(series)}`);
+  }
+
+  // Cancel after the first progress notification; the handler should stop instead of running to completion.
+  const cancellation = new AbortController();
+  const cancelled = client
+    .request(
+      {
+        method: 'tools/call',
+        params: {
+          name: 'compute-series',
+          arguments: { series: 'harmonic', terms: 1000, steps: 10, delayMs: 500 }
+        }
+      },
+      CallToolResultSchema,
+      { signal: cancellation.signal, onprogress: () => cancellation.abort('smoke test cancel') }
+    )
+    .then(
+      () => 'completed',
+      () => 'rejected'
+    );
+
+  if ((await cancelled) !== 'rejected') {
+    throw new Error('Cancelled compute-series request did not reject.');
+  }
+
+  let stoppedEarly = false;
+  for (let attempt = 0; attempt < 20 && !stoppedEarly; attempt += 1) {
+    await sleep(100);
+    stoppedEarly = (await countToolCalls('compute-series', 'error')) === 1;
+  }
+  if (!stoppedEarly) {
+    throw new Error('compute-series did not stop after notifications/cancelled.');
+  }
+
+  // Drop the tool call's stream after the first progress event and resume it with Last-Event-ID.
+  const headers = {
+    'mcp-session-id': transport.sessionId,
+    'mcp-protocol-version': transport.protocolVersion
+  };
+  const dropped = new AbortController();
+  const call = await fetch(serverUrl, {
+    method: 'POST',
+    headers: {
+      ...headers,
+      'content-type': 'application/json',
+      accept: 'application/json, text/event-stream'
+    },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 'resume-1',
+      method: 'tools/call',
+      params: {
+        name: 'compute-series',
+        arguments: { series: 'leibniz', terms: 1000, steps: 4, delayMs: 300 },
+        _meta: { progressToken: 'resume' }
+      }
+    }),
+    signal: dropped.signal
+  });
+  const beforeDrop = await readUntil(call.body.getReader(), (text) =>
+    text.includes('notifications/progress')
+  );
+  dropped.abort();
+
+  const lastEventId = [...beforeDrop.matchAll(/^id: (.+)$/gm)].map((match) => match[1]).at(-1);
+  // The server answers 409 until it has noticed the dropped connection, so retry briefly.
+  let resumed;
+  for (let attempt = 0; attempt < 20; attempt += 1) {
+    resumed = await fetch(serverUrl, {
+      headers: { ...headers, accept: 'text/event-stream', 'last-event-id': lastEventId },
+      signal: AbortSignal.timeout(5000)
+    });
+    if (resumed.status !== 409) {
+      break;
+    }
+    await resumed.body?.cancel();
+    await sleep(50);
+  }
+  const afterResume = messagesFrom(
+    await readUntil(resumed.body.getReader(), (text) => text.includes('"id":"resume-1"'))
+  );
+
+  const resumedProgress = afterResume
+    .filter((message) => message.method === 'notifications/progress')
+    .map((message) => message.params.progress);
+  const resumedResult = afterResume.find((message) => message.id === 'resume-1')?.result;
+  if (resumedProgress.at(-1) !== 1000 || typeof resumedResult?.structuredContent?.value !== 'number') {
+    throw new Error(
+      `Progress did not resume after reconnecting (${resumed.status}): ${JSON.stringify(afterResume)}`
+    );
+  }
+
+  // Two sessions share workspace history; a third workspace cannot subscribe to it.
+  const connectWorkspace = async (workspace) => {
+    const workspaceTransport = new StreamableHTTPClientTransport(serverUrl, {
+      requestInit: { headers: { 'x-workspace-id': workspace } }
+    });
+    const workspaceClient = new Client({ name: 'smoke-subscriber', version: '1.0.0' });
+    const received = [];
+    workspaceClient.setNotificationHandler('notifications/resources/updated', ({ params }) => {
+      received.push(params.uri);
+    });
+    workspaceClient.setNotificationHandler('notifications/resources/list_changed', ({ method }) => {
+      received.push(method);
+    });
+    await workspaceClient.connect(workspaceTransport);
+    return { client: workspaceClient, transport: workspaceTransport, received };
+  };
+  const waitForNotifications = async (received, expected) => {
+    for (let attempt = 0; attempt < 40 && !expected.every((item) => received.includes(item)); attempt += 1) {
+      await sleep(50);
+    }
+    if (!expected.every((item) => received.includes(item))) {
+      throw new Error(
+        `Expected ${JSON.stringify(expected)} on the GET stream, got ${JSON.stringify(received)}`
+      );
+    }
+  };
+
+  const sharedUri = 'calc://workspaces/smoke-a/history';
+  const subscriber = await connectWorkspace('smoke-a');
+  const teammate = await connectWorkspace('smoke-a');
+  const outsider = await connectWorkspace('smoke-b');
+  await subscriber.client.subscribeResource({ uri: 'calc://history' });
+  await subscriber.client.subscribeResource({ uri: sharedUri });
+  const outsiderCode = await outsider.client.subscribeResource({ uri: sharedUri }).then(
+    () => undefined,
+    (error) => error.code
+  );
+  if (outsiderCode !== -32_002) {
+    throw new Error(`Subscribing to another workspace's history was not refused: ${outsiderCode}`);
+  }
+
+  await subscriber.client.callTool({ name: 'calculate', arguments: { operation: 'add', left: 1, right: 1 } });
+  await waitForNotifications(subscriber.received, [
+    'calc://history',
+    sharedUri,
+    'notifications/resources/list_changed'
+  ]);
+  // Another session's calculation only touches the shared history.
+  subscriber.received.length = 0;
+  await teammate.client.callTool({ name: 'calculate', arguments: { operation: 'add', left: 2, right: 2 } });
+  await waitForNotifications(subscriber.received, [sharedUri]);
+  if (subscriber.received.includes('calc://history')) {
+    throw new Error(`Another session's calculation updated this session's history: ${subscriber.received}`);
+  }
+  for (const session of [subscriber, teammate, outsider]) {
+    await session.transport.terminateSession();
+    await session.client.close();
+  }
+
+  // A 2024-11-05 client on /sse runs next to the Streamable HTTP session.
+  const legacyClient = new Client({ name: 'smoke-legacy-client', version: '1.0.0' });
+  await legacyClient.connect(new SSEClientTransport(new URL(`http://127.0.0.1:${port}/sse`)));
+  const legacyResult = await legacyClient.callTool({
+    name: 'calculate',
+    arguments: { operation: 'multiply', left: 6, right: 7 }
+  });
+  if (legacyResult.structuredContent?.result !== 42) {
+    throw new Error(`Unexpected legacy SSE result: ${JSON.stringify(legacyResult)}`);
+  }
+
+  const { sessions } = await (await fetch(`http://127.0.0.1:${port}/health`)).json();
+  const transports = sessions.map((session) => session.transport).sort();
+  if (JSON.stringify(transports) !== JSON.stringify(['sse', 'streamable-http'])) {
+    throw new Error(`Unexpected session transports in /health: ${JSON.stringify(sessions)}`);
+  }
+  await legacyClient.close();
+
   await transport.terminateSession();
   await client.close();
 
@@ -0,0 +1,229 @@
+import { spawn } from 'node:child_process';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+const port = Number(process.env.SMOKE_PORT ?? 3222);
+const baseUrl = `http://127.0.0.1:${port}`;
+const serverUrl = `${baseUrl}/mcp`;
+const protocolVersion = '2025-11-25';
+const dataDir = await mkdtemp(path.join(os.tmpdir(), 'mcp-sessions-'));
+const idleTimeoutMs = 1000;
+const maxLifetimeMs = 4000;
+const restoreIdleTimeoutMs = 3000;
+
+const waitForHealth = async () => {
+  for (let attempt = 0; attempt < 30; attempt += 1) {
+    try {
+      const response = await fetch(`${baseUrl}/readyz`);
+      if (response.ok) {
+        return;
+      }
+    } catch {
+      // Keep retrying while process boots.
+    }
+    await sleep(200);
+  }
+
+  throw new Error('Server did not become ready in time.');
+};
+
+const startServer = (env) =>
+  spawn('node', ['dist/server.js'], {
+    stdio: 'inherit',
+    env: {
+      ...process.env,
+      PORT: String(port),
+      HOST: '127.0.0.1',
+      SHUTDOWN_GRACE_MS: '0',
+      ...env
+    }
+  });
+
+const postMessage = async (message, sessionId) => {
+  const headers = {
+    'content-type': 'application/json',
+    accept: 'application/json, text/event-stream'
+  };
+  if (sessionId) {
+    headers['mcp-session-id'] = sessionId;
+    headers['mcp-protocol-version'] = protocolVersion;
+  }
+
+  const response = await fetch(serverUrl, { method: 'POST', headers, body: JSON.stringify(message) });
+  return {
+    status: response.status,
+    sessionId: response.headers.get('mcp-session-id') ?? sessionId,
+    text: await response.text()
+  };
+};
+
+const initialize = () =>
+  postMessage({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion, capabilities: {}, clientInfo: { name: 'smoke-sessions', version: '1.0.0' } }
+  });
+
+const openSession = async () => {
+  const { status, sessionId, text } = await initialize();
+  if (status !== 200 || !sessionId) {
+    throw new Error(`initialize failed with ${status}: ${text}`);
+  }
+  await postMessage({ jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId);
+  return sessionId;
+};
+
+const ping = async (sessionId) =>
+  (await postMessage({ jsonrpc: '2.0', id: 'ping', method: 'ping' }, sessionId)).status;
+
+const activeSessions = async () => (await (await fetch(`${baseUrl}/health`)).json()).activeSessions;
+
+const closedSessions = async (reason) => {
+  const metrics = await (await fetch(`${baseUrl}/metrics`)).text();
+  const line = metrics
+    .split('\n')
+    .find((entry) => entry.startsWith(`mcp_sessions_closed_total{reason="${reason}"}`));
+  return Number(line?.split(' ').at(-1) ?? 0);
+};
+
+const stopServer = async (child) => {
+  if (child.exitCode === null) {
+    child.kill('SIGTERM');
+    await new Promise((resolve) => child.once('exit', resolve));
+  }
+};
+
+let child;
+
+const cleanup = () => {
+  if (child && child.exitCode === null && !child.killed) {
+    child.kill('SIGKILL');
+  }
+};
+
+process.on('exit', cleanup);
+process.on('SIGINT', cleanup);
+process.on('SIGTERM', cleanup);
+
+try {
+  // A file event store makes session setup slow enough that concurrent initializes overlap.
+  child = startServer({
+    MAX_SESSIONS: '1',
+    SESSION_OVERFLOW_POLICY: 'reject',
+    EVENT_STORE: 'file',
+    EVENT_STORE_DIR: path.join(dataDir, 'events')
+  });
+  await waitForHealth();
+
+  const concurrent = await Promise.all([1, 2, 3, 4, 5].map(() => initialize()));
+  const statuses = concurrent.map((response) => response.status).sort();
+  if (
+    JSON.stringify(statuses) !== JSON.stringify([200, 503, 503, 503, 503]) ||
+    (await activeSessions()) !== 1
+  ) {
+    throw new Error(`Concurrent initializes went past MAX_SESSIONS=1: ${JSON.stringify(statuses)}`);
+  }
+
+  // Refused initializes give their slot back, so closing the one session makes room for the next.
+  const admitted = concurrent.find((response) => response.status === 200).sessionId;
+  await fetch(serverUrl, {
+    method: 'DELETE',
+    headers: { 'mcp-session-id': admitted, 'mcp-protocol-version': protocolVersion }
+  });
+  await openSession();
+  const overCap = await initialize();
+  if (overCap.status !== 503 || !overCap.text.includes('Session limit of 1 reached')) {
+    throw new Error(`initialize over the cap was not refused: ${overCap.status} ${overCap.text}`);
+  }
+  await stopServer(child);
+
+  child = startServer({
+    MAX_SESSIONS: '2',
+    SESSION_OVERFLOW_POLICY: 'evict-lru',
+    SESSION_IDLE_TIMEOUT_MS: String(idleTimeoutMs),
+    SESSION_MAX_LIFETIME_MS: String(maxLifetimeMs)
+  });
+  await waitForHealth();
+
+  // A third session evicts the least recently used one, not the oldest.
+  const startedAtMs = Date.now();
+  const active = await openSession();
+  const unused = await openSession();
+  await ping(active);
+  const idle = await openSession();
+  if (
+    (await ping(unused)) !== 404 ||
+    (await ping(active)) !== 200 ||
+    (await closedSessions('evicted')) !== 1
+  ) {
+    throw new Error('The least recently used session was not evicted.');
+  }
+
+  // Requests keep a session alive past the idle timeout, but not past its maximum lifetime.
+  let closedAtMs;
+  while (closedAtMs === undefined && Date.now() - startedAtMs < maxLifetimeMs + 3000) {
+    await sleep(idleTimeoutMs / 4);
+    if ((await ping(active)) === 404) {
+      closedAtMs = Date.now();
+    }
+  }
+  if ((await ping(idle)) !== 404 || (await closedSessions('idle-timeout')) !== 1) {
+    throw new Error('A session without requests was not closed after the idle timeout.');
+  }
+  if (
+    closedAtMs === undefined ||
+    closedAtMs - startedAtMs < maxLifetimeMs ||
+    (await closedSessions('max-lifetime')) !== 1
+  ) {
+    throw new Error(
+      `An active session was not closed at its maximum lifetime (after ${closedAtMs - startedAtMs}ms).`
+    );
+  }
+  await stopServer(child);
+
+  // A persisted session is restored after a restart only while it is within the idle timeout,
+  // and a restore is not counted as a new session or an initialize request.
+  const persisted = {
+    SESSION_STORE: 'file',
+    SESSION_STORE_DIR: path.join(dataDir, 'sessions'),
+    SESSION_IDLE_TIMEOUT_MS: String(restoreIdleTimeoutMs)
+  };
+  child = startServer(persisted);
+  await waitForHealth();
+  const restorable = await openSession();
+  const stale = await openSession();
+  child.kill('SIGKILL');
+  await new Promise((resolve) => child.once('exit', resolve));
+
+  child = startServer(persisted);
+  await waitForHealth();
+  const restoredStatus = await ping(restorable);
+  const metrics = await (await fetch(`${baseUrl}/metrics`)).text();
+  if (
+    restoredStatus !== 200 ||
+    /^mcp_sessions_created_total [1-9]/m.test(metrics) ||
+    metrics.includes('method="initialize"')
+  ) {
+    throw new Error(
+      `Restoring a session failed (${restoredStatus}) or was counted as a new one:\n${metrics}`
+    );
+  }
+
+  await stopServer(child);
+  await sleep(restoreIdleTimeoutMs);
+  child = startServer(persisted);
+  await waitForHealth();
+  if ((await ping(stale)) !== 404) {
+    throw new Error('A persisted session past its idle timeout was restored.');
+  }
+
+  console.log('Session limits smoke test passed.');
+} finally {
+  cleanup();
+  await sleep(250);
+  await rm(dataDir, { recursive: true, force: true });
+}
@@ -0,0 +1,114 @@
+import { spawn } from 'node:child_process';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import { Client, StreamableHTTPClientTransport } from '@modelcontextprotocol/client';
+
+const port = Number(process.env.SMOKE_PORT ?? 3214);
+const ports = [port, port + 1];
+const dataDir = await mkdtemp(path.join(os.tmpdir(), 'mcp-stateless-'));
+const workspaceHeaders = { 'x-workspace-id': 'smoke-stateless' };
+
+const waitForHealth = async (instancePort) => {
+  for (let attempt = 0; attempt < 30; attempt += 1) {
+    try {
+      const response = await fetch(`http://127.0.0.1:${instancePort}/health`);
+      if (response.ok) {
+        return;
+      }
+    } catch {
+      // Keep retrying while process boots.
+    }
+    await sleep(200);
+  }
+
+  throw new Error('Server did not become healthy in time.');
+};
+
+// Two instances share one state directory, as they would behind a load balancer.
+const children = ports.map((instancePort) =>
+  spawn('node', ['dist/server.js'], {
+    stdio: 'inherit',
+    env: {
+      ...process.env,
+      PORT: String(instancePort),
+      HOST: '127.0.0.1',
+      SESSION_MODE: 'stateless',
+      STATE_STORE: 'file',
+      STATE_STORE_DIR: dataDir,
+      SHUTDOWN_GRACE_MS: '0'
+    }
+  })
+);
+
+const cleanup = () => {
+  for (const child of children) {
+    if (child.exitCode === null && !child.killed) {
+      child.kill('SIGTERM');
+    }
+  }
+};
+
+process.on('exit', cleanup);
+process.on('SIGINT', cleanup);
+process.on('SIGTERM', cleanup);
+
+const connect = async (instancePort) => {
+  const client = new Client({ name: 'smoke-stateless', version: '1.0.0' });
+  const transport = new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${instancePort}/mcp`), {
+    requestInit: { headers: workspaceHeaders }
+  });
+  await client.connect(transport);
+  return { client, transport };
+};
+
+try {
+  await Promise.all(ports.map(waitForHealth));
+
+  const first = await connect(ports[0]);
+  if (first.transport.sessionId !== undefined) {
+    throw new Error(`Stateless server returned a session ID: ${first.transport.sessionId}`);
+  }
+
+  const calculation = await first.client.callTool({
+    name: 'calculate',
+    arguments: { operation: 'multiply', left: 6, right: 7 }
+  });
+  if (calculation.structuredContent?.result !== 42) {
+    throw new Error(`Unexpected calculation result: ${JSON.stringify(calculation)}`);
+  }
+
+  for (const method of ['GET', 'DELETE']) {
+    const response = await fetch(`http://127.0.0.1:${ports[0]}/mcp`, {
+      method,
+      headers: { accept: 'text/event-stream' }
+    });
+    if (response.status !== 405) {
+      throw new Error(`${method} /mcp returned ${response.status} instead of 405 in stateless mode.`);
+    }
+  }
+
+  // The other instance never saw the calculation, so its history can only come from the state store.
+  const second = await connect(ports[1]);
+  const summary = await second.client.callTool({ name: 'history-summary', arguments: { limit: 5 } });
+  const formulas = summary.content?.map((block) => block.text).join('\n') ?? '';
+  if (!formulas.includes('6 * 7 = 42')) {
+    throw new Error(`History was not shared between instances: ${JSON.stringify(summary)}`);
+  }
+
+  const { activeSessions } = await (await fetch(`http://127.0.0.1:${ports[1]}/health`)).json();
+  if (activeSessions !== 0) {
+    throw new Error(`Stateless server kept ${activeSessions} sessions.`);
+  }
+
+  await Promise.all([first.client.close(), second.client.close()]);
+
+  console.log('Stateless smoke test passed.');
+} finally {
+  cleanup();
+  await sleep(250);
+  await rm(dataDir, { recursive: true, force: true });
+}
@@ -0,0 +1,80 @@
+import cluster from 'node:cluster';
+import { rm } from 'node:fs/promises';
+import path from 'node:path';
+import process from 'node:process';
+import { fileURLToPath } from 'node:url';
+
+import { loadConfig } from './config.js';
+import { Logger } from './server/logger.js';
+
+const { cluster: clusterConfig, logLevel } = loadConfig();
+const logger = new Logger({ level: logLevel, bindings: { component: 'cluster' } });
+
+// A session outlives its worker only if its events, handshake and history are on disk.
+const workerEnv = {
+  EVENT_STORE: process.env.EVENT_STORE ?? 'file',
+  SESSION_STORE: process.env.SESSION_STORE ?? 'file',
+  HISTORY_STORE: process.env.HISTORY_STORE ?? 'file',
+  STATE_STORE: process.env.STATE_STORE ?? 'file'
+};
+
+// Entries left by an earlier run name workers that are gone.
+await rm(clusterConfig.directory, { recursive: true, force: true });
+
+const currentFile = fileURLToPath(import.meta.url);
+cluster.setupPrimary({
+  exec: path.join(path.dirname(currentFile), `server${path.extname(currentFile)}`)
+});
+
+let stopping = false;
+
+const liveWorkers = () => Object.values(cluster.workers ?? {}).filter((worker) => worker && !worker.isDead());
+
+cluster.on('online', (worker) => {
+  logger.info('worker started', { worker: worker.id, pid: worker.process.pid });
+});
+
+cluster.on('exit', (worker, code, signal) => {
+  if (stopping) {
+    if (liveWorkers().length === 0) {
+      logger.info('all workers stopped');
+      process.exit(0);
+    }
+    return;
+  }
+
+  logger.error('worker exited, starting a replacement', { worker: worker.id, code, signal });
+  cluster.fork(workerEnv);
+});
+
+for (let index = 0; index < clusterConfig.workers; index += 1) {
+  cluster.fork(workerEnv);
+}
+
+logger.info('cluster primary started', {
+  workers: clusterConfig.workers,
+  sessionDirectory: clusterConfig.directory
+});
+
+const shutdown = (signal: string): void => {
+  // A second signal kills workers that are still draining.
+  const workerSignal = stopping ? 'SIGKILL' : 'SIGTERM';
+  stopping = true;
+  logger.warn('stopping workers', { signal, workerSignal });
+
+  const workers = liveWorkers();
+  if (workers.length === 0) {
+    process.exit(0);
+  }
+  for (const worker of workers) {
+    worker?.process.kill(workerSignal);
+  }
+};
+
+process.on('SIGINT', () => {
+  shutdown('SIGINT');
+});
+
+process.on('SIGTERM', () => {
+  shutdown('SIGTERM');
+});
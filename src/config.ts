@@ -0,0 +1,248 @@
+import os from 'node:os';
+import process from 'node:process';
+
+import type { ApiKeyEntry, AuthConfig } from './server/auth.js';
+import { CALCULATOR_SCOPES } from './server/create-mcp-server.js';
+import { isLogLevel, type LogLevel } from './server/logger.js';
+import { defaultAllowedHosts, type OriginPolicyConfig } from './server/origin-policy.js';
+import type { RateLimitConfig, TokenBucketConfig } from './server/rate-limiter.js';
+import {
+  RESPONSE_MODES,
+  type ResponseMode,
+  type SessionOverflowPolicy,
+  type SessionRegistryOptions
+} from './server/session-registry.js';
+import { OUTPUT_VALIDATION_MODES, type OutputValidationMode } from './server/tool-registrar.js';
+
+export interface SessionStoreConfig {
+  kind: 'none' | 'file';
+  directory: string;
+}
+
+export interface HistoryStoreConfig {
+  kind: 'memory' | 'file';
+  directory: string;
+}
+
+export interface StateStoreConfig {
+  kind: 'memory' | 'file';
+  directory: string;
+}
+
+export interface ClusterConfig {
+  /** Workers `src/cluster.ts` forks; `server.ts` ignores it. */
+  workers: number;
+  /** Shared session directory recording which worker holds each session. */
+  directory: string;
+}
+
+export interface AdminConfig {
+  token: string;
+  /** When set, admin routes listen here instead of on the public port. */
+  port: number | undefined;
+  host: string;
+}
+
+/** `stdio` serves one client over stdin/stdout instead of listening for HTTP. */
+export type TransportKind = 'http' | 'stdio';
+
+export interface ServerConfig {
+  transport: TransportKind;
+  port: number;
+  host: string;
+  sessions: SessionRegistryOptions;
+  sessionStore: SessionStoreConfig;
+  historyStore: HistoryStoreConfig;
+  /** `SESSION_MODE=stateless` serves each `/mcp` POST without a session, from any instance. */
+  stateless: boolean;
+  /** Where stateless mode keeps calculation history between requests. */
+  stateStore: StateStoreConfig;
+  originPolicy: OriginPolicyConfig;
+  logLevel: LogLevel;
+  maxBodyBytes: number;
+  rateLimits: RateLimitConfig;
+  /** How long a draining server waits for open sessions to finish before closing them. */
+  shutdownGraceMs: number;
+  /** Present when `AUTH_MODE=bearer`; `/mcp` is open otherwise. */
+  auth: AuthConfig | undefined;
+  /** Present when `ADMIN_TOKEN` is set; the admin routes are off otherwise. */
+  admin: AdminConfig | undefined;
+  cluster: ClusterConfig;
+  /**
+   * Serves `GET /sse` and `POST /messages` for 2024-11-05 clients; `LEGACY_SSE=off` disables them.
+   * Always off in stateless mode, since a legacy session lives on one open stream.
+   */
+  legacySse: boolean;
+}
+
+const getArgValue = (argv: string[], name: string): string | undefined => {
+  const index = argv.findIndex((arg) => arg === `--${name}`);
+  return index >= 0 ? argv[index + 1] : undefined;
+};
+
+const parsePositiveInt = (raw: string | undefined): number | undefined => {
+  if (!raw) {
+    return undefined;
+  }
+
+  const parsed = Number.parseInt(raw, 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const parseNonNegativeInt = (raw: string | undefined, fallback: number): number => {
+  if (!raw) {
+    return fallback;
+  }
+
+  const parsed = Number.parseInt(raw, 10);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const parsePositiveNumber = (raw: string | undefined, fallback: number): number => {
+  const parsed = Number(raw);
+  return raw && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/** A burst of `0` turns the bucket off. */
+const parseTokenBucket = (
+  burstRaw: string | undefined,
+  refillRaw: string | undefined,
+  defaults: TokenBucketConfig
+): TokenBucketConfig | undefined => {
+  const burst = parseNonNegativeInt(burstRaw, defaults.burst);
+  return burst > 0
+    ? { burst, refillPerSecond: parsePositiveNumber(refillRaw, defaults.refillPerSecond) }
+    : undefined;
+};
+
+const parseList = (raw: string | undefined): string[] =>
+  (raw ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/** Parses `clientId:token[:scope scope ...]` entries separated by commas. */
+const parseApiKeys = (raw: string | undefined): ApiKeyEntry[] =>
+  parseList(raw).flatMap((entry) => {
+    const [clientId, token, ...scopeParts] = entry.split(':');
+    const scopes = scopeParts.join(':').split(' ').filter(Boolean);
+    return clientId && token ? [{ clientId, token, scopes }] : [];
+  });
+
+const parseAuthConfig = (env: NodeJS.ProcessEnv, port: number, host: string): AuthConfig | undefined => {
+  if (env.AUTH_MODE !== 'bearer') {
+    return undefined;
+  }
+
+  return {
+    resourceUrl: env.AUTH_RESOURCE_URL ?? `http://${host}:${port}/mcp`,
+    authorizationServers: parseList(env.AUTH_AUTHORIZATION_SERVERS),
+    scopesSupported: env.AUTH_SCOPES_SUPPORTED
+      ? parseList(env.AUTH_SCOPES_SUPPORTED)
+      : Object.values(CALCULATOR_SCOPES),
+    apiKeys: parseApiKeys(env.AUTH_API_KEYS),
+    jwt: env.AUTH_JWKS_FILE
+      ? {
+          jwksFile: env.AUTH_JWKS_FILE,
+          issuer: env.AUTH_JWT_ISSUER,
+          audience: env.AUTH_JWT_AUDIENCE
+        }
+      : undefined
+  };
+};
+
+const parseAdminConfig = (env: NodeJS.ProcessEnv): AdminConfig | undefined => {
+  if (!env.ADMIN_TOKEN) {
+    return undefined;
+  }
+
+  return {
+    token: env.ADMIN_TOKEN,
+    port: parsePositiveInt(env.ADMIN_PORT),
+    host: env.ADMIN_HOST ?? '127.0.0.1'
+  };
+};
+
+// Production deployments keep schema details in the log by default.
+const parseOutputValidation = (env: NodeJS.ProcessEnv): OutputValidationMode => {
+  const mode = OUTPUT_VALIDATION_MODES.find((candidate) => candidate === env.TOOL_OUTPUT_VALIDATION);
+  return mode ?? (env.NODE_ENV === 'production' ? 'log' : 'strict');
+};
+
+const parseResponseMode = (raw: string | undefined): ResponseMode =>
+  RESPONSE_MODES.find((mode) => mode === raw) ?? 'sse';
+
+const parseOverflowPolicy = (raw: string | undefined): SessionOverflowPolicy => {
+  return raw === 'reject' ? 'reject' : 'evict-lru';
+};
+
+export const loadConfig = (
+  argv: string[] = process.argv,
+  env: NodeJS.ProcessEnv = process.env
+): ServerConfig => {
+  const port = parsePositiveInt(env.PORT) ?? parsePositiveInt(getArgValue(argv, 'port')) ?? 3000;
+  const host = env.HOST ?? '127.0.0.1';
+  const stateless = env.SESSION_MODE === 'stateless';
+
+  return {
+    transport: (getArgValue(argv, 'transport') ?? env.MCP_TRANSPORT) === 'stdio' ? 'stdio' : 'http',
+    port,
+    host,
+    sessions: {
+      idleTimeoutMs: parseNonNegativeInt(env.SESSION_IDLE_TIMEOUT_MS, 30 * 60 * 1000),
+      maxLifetimeMs: parseNonNegativeInt(env.SESSION_MAX_LIFETIME_MS, 0),
+      maxSessions: parseNonNegativeInt(env.MAX_SESSIONS, 1000),
+      overflowPolicy: parseOverflowPolicy(env.SESSION_OVERFLOW_POLICY),
+      eventStore: {
+        kind: env.EVENT_STORE === 'file' ? 'file' : 'memory',
+        directory: env.EVENT_STORE_DIR ?? '.data/events',
+        maxEventsPerStream: parsePositiveInt(env.EVENT_STORE_MAX_EVENTS) ?? 1000,
+        maxEventAgeMs: parseNonNegativeInt(env.EVENT_STORE_MAX_AGE_MS, 15 * 60 * 1000)
+      },
+      resourcePageSize: parsePositiveInt(env.RESOURCE_PAGE_SIZE) ?? 50,
+      outputValidation: parseOutputValidation(env),
+      responseMode: parseResponseMode(env.RESPONSE_MODE)
+    },
+    sessionStore: {
+      kind: env.SESSION_STORE === 'file' ? 'file' : 'none',
+      directory: env.SESSION_STORE_DIR ?? '.data/sessions'
+    },
+    historyStore: {
+      kind: env.HISTORY_STORE === 'file' ? 'file' : 'memory',
+      directory: env.HISTORY_STORE_DIR ?? '.data/history'
+    },
+    stateless,
+    stateStore: {
+      kind: env.STATE_STORE === 'file' ? 'file' : 'memory',
+      directory: env.STATE_STORE_DIR ?? '.data/state'
+    },
+    logLevel: isLogLevel(env.LOG_LEVEL) ? env.LOG_LEVEL : 'info',
+    maxBodyBytes: parsePositiveInt(env.MAX_BODY_BYTES) ?? 1024 * 1024,
+    rateLimits: {
+      session: parseTokenBucket(env.RATE_LIMIT_SESSION_BURST, env.RATE_LIMIT_SESSION_PER_SEC, {
+        burst: 60,
+        refillPerSecond: 10
+      }),
+      initialize: parseTokenBucket(env.RATE_LIMIT_INITIALIZE_BURST, env.RATE_LIMIT_INITIALIZE_PER_SEC, {
+        burst: 10,
+        refillPerSecond: 1
+      }),
+      principal: parseTokenBucket(env.RATE_LIMIT_PRINCIPAL_BURST, env.RATE_LIMIT_PRINCIPAL_PER_SEC, {
+        burst: 0,
+        refillPerSecond: 10
+      })
+    },
+    shutdownGraceMs: parseNonNegativeInt(env.SHUTDOWN_GRACE_MS, 10_000),
+    originPolicy: {
+      allowedHosts: env.ALLOWED_HOSTS ? parseList(env.ALLOWED_HOSTS) : defaultAllowedHosts(host),
+      allowedOrigins: parseList(env.ALLOWED_ORIGINS)
+    },
+    auth: parseAuthConfig(env, port, host),
+    admin: parseAdminConfig(env),
+    cluster: {
+      workers: parsePositiveInt(env.CLUSTER_WORKERS) ?? os.availableParallelism(),
+      directory: env.CLUSTER_SESSION_DIR ?? '.data/cluster'
+    },
+    legacySse: env.LEGACY_SSE !== 'off' && !stateless
+  };
+};
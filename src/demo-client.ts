@@ -1,3 +1,5 @@
+import { createInterface } from 'node:readline/promises';
+
 import {
   CallToolResultSchema,
   Client,
@@ -5,14 +7,125 @@ import {
   StreamableHTTPClientTransport
 } from '@modelcontextprotocol/client';
 
-const serverUrl = process.argv[2] ?? 'http://127.0.0.1:3000/mcp';
+// `demo-client [url]` runs the tour; `demo-client completions [url]` shows argument completion instead.
+const args = process.argv.slice(2);
+const command = args[0] === 'completions' ? args.shift() : 'tour';
+const serverUrl = args[0] ?? 'http://127.0.0.1:3000/mcp';
+
+// Elicitation answers when stdin is not a terminal, so the demo also runs unattended; confirmations are accepted.
+const DEFAULT_NUMBER_ANSWER = 4;
+
+interface FieldSchema {
+  type?: string;
+  title?: string;
+  default?: unknown;
+}
+
+const prompt = process.stdin.isTTY
+  ? createInterface({ input: process.stdin, output: process.stdout })
+  : undefined;
+
+const askField = async (name: string, schema: FieldSchema): Promise<string | number | boolean> => {
+  const numeric = schema.type === 'number' || schema.type === 'integer';
+
+  if (!prompt) {
+    const answer =
+      schema.type === 'boolean' ? true : (schema.default ?? (numeric ? DEFAULT_NUMBER_ANSWER : ''));
+    console.log(`  ${schema.title ?? name}: ${String(answer)} (auto)`);
+    return answer as string | number | boolean;
+  }
+
+  const text = await prompt.question(
+    `  ${schema.title ?? name}${schema.type === 'boolean' ? ' (y/n)' : ''}: `
+  );
+  if (numeric) {
+    return Number(text);
+  }
+  return schema.type === 'boolean' ? /^(y|yes|true)$/i.test(text.trim()) : text;
+};
+
+const calculate = async (
+  client: Client,
+  operation: 'add' | 'subtract' | 'multiply' | 'divide',
+  left: number,
+  right: number
+) =>
+  client.request(
+    {
+      method: 'tools/call',
+      params: { name: 'calculate', arguments: { operation, left, right } }
+    },
+    CallToolResultSchema
+  );
+
+const showCompletions = async (client: Client): Promise<void> => {
+  // Completions come from session history, so seed it first.
+  await calculate(client, 'multiply', 7, 6);
+  await calculate(client, 'add', 7, 5);
+  await calculate(client, 'divide', 81, 9);
+
+  const ids = await client.complete({
+    ref: { type: 'ref/resource', uri: 'calc://history/{id}' },
+    argument: { name: 'id', value: 'calc_' }
+  });
+  console.log("calc://history/{id} completions for 'calc_':", ids.completion.values.join(', '));
+
+  const formulas = await client.complete({
+    ref: { type: 'ref/prompt', name: 'explain-calculation' },
+    argument: { name: 'formula', value: '7' }
+  });
+  console.log("explain-calculation formula completions for '7':", formulas.completion.values.join(', '));
+};
 
 const run = async (): Promise<void> => {
-  const client = new Client({ name: 'starter-demo-client', version: '1.0.0' });
+  const client = new Client(
+    { name: 'starter-demo-client', version: '1.0.0' },
+    { capabilities: { sampling: {}, elicitation: { form: {} } } }
+  );
+
+  // Stands in for the client's LLM so the sampling round trip works offline.
+  client.setRequestHandler('sampling/createMessage', async (request) => {
+    const text = request.params.messages
+      .flatMap((message) => (Array.isArray(message.content) ? message.content : [message.content]))
+      .flatMap((block) => (block.type === 'text' ? [block.text] : []))
+      .join('\n');
+    const [firstLine = ''] = text.split('\n');
+    console.log('Sampling request:', firstLine);
+
+    return {
+      model: 'demo-offline',
+      role: 'assistant',
+      content: {
+        type: 'text',
+        text: `Offline demo model: a connected client would send "${firstLine}" to its LLM and return the answer here.`
+      }
+    };
+  });
+
+  client.setRequestHandler('elicitation/create', async (request) => {
+    console.log('Elicitation request:', request.params.message);
+    if (!('requestedSchema' in request.params)) {
+      return { action: 'decline' };
+    }
+
+    const content: Record<string, string | number | boolean> = {};
+    for (const [name, schema] of Object.entries(request.params.requestedSchema.properties)) {
+      content[name] = await askField(name, schema as FieldSchema);
+    }
+    return { action: 'accept', content };
+  });
+
   const transport = new StreamableHTTPClientTransport(new URL(serverUrl));
 
   await client.connect(transport);
 
+  if (command === 'completions') {
+    await showCompletions(client);
+    await transport.terminateSession();
+    await client.close();
+    return;
+  }
+
   const tools = await client.request(
     {
       method: 'tools/list',
@@ -23,23 +136,41 @@ const run = async (): Promise<void> => {
 
   console.log('Tools:', tools.tools.map((tool) => tool.name).join(', '));
 
-  const callResult = await client.request(
+  const callResult = await calculate(client, 'multiply', 7, 6);
+
+  console.log('Tool response:', JSON.stringify(callResult.structuredContent ?? callResult.content, null, 2));
+
+  const explanation = await client.request(
     {
       method: 'tools/call',
       params: {
-        name: 'calculate',
-        arguments: {
-          operation: 'multiply',
-          left: 7,
-          right: 6
-        }
+        name: 'explain-calculation-record',
+        arguments: { id: callResult.structuredContent?.id }
       }
     },
     CallToolResultSchema
   );
 
-  console.log('Tool response:', JSON.stringify(callResult.structuredContent ?? callResult.content, null, 2));
+  console.log('Explanation:', JSON.stringify(explanation.structuredContent ?? explanation.content, null, 2));
+
+  // The right operand is left out and the left one exceeds Number.MAX_SAFE_INTEGER, so the server asks twice.
+  const interactive = await client.request(
+    {
+      method: 'tools/call',
+      params: {
+        name: 'calculate-interactive',
+        arguments: { operation: 'divide', left: 2 ** 60 }
+      }
+    },
+    CallToolResultSchema
+  );
+
+  console.log(
+    'Interactive response:',
+    JSON.stringify(interactive.structuredContent ?? interactive.content, null, 2)
+  );
 
+  prompt?.close();
   await transport.terminateSession();
   await client.close();
 };
@@ -1,57 +1,194 @@
+import cluster from 'node:cluster';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
 import process from 'node:process';
 
+import { loadConfig } from './config.js';
+import { createAdminHttpServer, createAdminRequestHandler } from './server/admin-api.js';
+import { BearerAuthenticator } from './server/auth.js';
+import { FileHistoryRepository, InMemoryHistoryRepository } from './server/history-repository.js';
 import { createMcpHttpServer } from './server/http-server.js';
+import { Logger } from './server/logger.js';
+import { ServerMetrics } from './server/metrics.js';
+import { RateLimiter } from './server/rate-limiter.js';
+import { FileServerStateStore, InMemoryServerStateStore } from './server/server-state-store.js';
+import { FileSessionDirectory } from './server/session-directory.js';
+import { FileSessionPersistence } from './server/session-persistence.js';
 import { SessionRegistry } from './server/session-registry.js';
+import { StdioServer } from './server/stdio-server.js';
 
-const parsePort = (): number => {
-  const envPort = process.env.PORT;
-  if (envPort) {
-    const parsed = Number.parseInt(envPort, 10);
-    if (Number.isInteger(parsed) && parsed > 0) {
-      return parsed;
-    }
-  }
+const {
+  transport,
+  port,
+  host,
+  sessions,
+  sessionStore,
+  historyStore,
+  stateless,
+  stateStore,
+  originPolicy,
+  logLevel,
+  maxBodyBytes,
+  rateLimits,
+  shutdownGraceMs,
+  auth,
+  admin,
+  legacySse,
+  cluster: clusterConfig
+} = loadConfig();
+
+// Under src/cluster.ts each worker records its sessions in the shared directory.
+const worker = cluster.isWorker ? cluster.worker : undefined;
+const sessionDirectory = worker && new FileSessionDirectory(clusterConfig.directory, worker.id);
+
+// stdout carries JSON-RPC in stdio mode, so logs go to stderr there.
+const logger = new Logger({
+  level: logLevel,
+  bindings: worker ? { worker: worker.id } : {},
+  write: transport === 'stdio' ? (line) => process.stderr.write(`${line}\n`) : undefined
+});
+const history =
+  historyStore.kind === 'file'
+    ? new FileHistoryRepository(historyStore.directory)
+    : new InMemoryHistoryRepository();
 
-  const portArgIndex = process.argv.findIndex((arg) => arg === '--port');
-  if (portArgIndex >= 0) {
-    const argPort = process.argv[portArgIndex + 1];
-    if (argPort) {
-      const parsed = Number.parseInt(argPort, 10);
-      if (Number.isInteger(parsed) && parsed > 0) {
-        return parsed;
-      }
-    }
+let shuttingDown = false;
+
+const gracefulShutdown = async (signal: string, stop: () => Promise<void>): Promise<void> => {
+  // A second signal skips whatever is left of the grace period.
+  if (shuttingDown) {
+    logger.warn('forced shutdown', { signal });
+    process.exit(1);
   }
 
-  return 3000;
+  shuttingDown = true;
+  logger.warn('shutting down', { signal, graceMs: shutdownGraceMs });
+  await stop();
+  process.exit(0);
 };
 
-const port = parsePort();
-const host = process.env.HOST ?? '127.0.0.1';
+const startStdio = async (): Promise<() => Promise<void>> => {
+  const server = new StdioServer({
+    logger: logger.child({ component: 'stdio' }),
+    metrics: new ServerMetrics(),
+    history,
+    resourcePageSize: sessions.resourcePageSize,
+    outputValidation: sessions.outputValidation
+  });
+  const stop = () => server.drain(shutdownGraceMs);
 
-const registry = new SessionRegistry();
-const httpServer = createMcpHttpServer(registry);
+  // The client closing stdin is how stdio servers are normally told to exit.
+  await server.start(() => {
+    void gracefulShutdown('stdin-closed', stop);
+  });
+  logger.info('MCP stdio server ready');
+  return stop;
+};
 
-httpServer.listen(port, host, () => {
-  console.log(`MCP Streamable HTTP server listening at http://${host}:${port}/mcp`);
-  console.log(`Health endpoint: http://${host}:${port}/health`);
-});
+const closeListener = async (server: Server): Promise<void> =>
+  new Promise((resolve) => {
+    server.close(() => resolve());
+  });
 
-const gracefulShutdown = async (signal: string): Promise<void> => {
-  console.warn(`Received ${signal}, shutting down...`);
+const startHttp = async (): Promise<() => Promise<void>> => {
+  const rateLimiter = new RateLimiter(rateLimits);
+  const metrics = new ServerMetrics({
+    activeSessions: () => registry.count(),
+    storedEvents: () => registry.storedEventCount()
+  });
 
-  await new Promise<void>((resolve) => {
-    httpServer.close(() => resolve());
+  const registry: SessionRegistry = new SessionRegistry({
+    ...sessions,
+    persistence:
+      sessionStore.kind === 'file' ? new FileSessionPersistence(sessionStore.directory) : undefined,
+    history,
+    stateStore:
+      stateStore.kind === 'file'
+        ? new FileServerStateStore(stateStore.directory)
+        : new InMemoryServerStateStore(),
+    rateLimiter,
+    logger: logger.child({ component: 'sessions' }),
+    metrics,
+    directory: sessionDirectory
   });
+  const adminHandler = admin
+    ? createAdminRequestHandler(registry, {
+        token: admin.token,
+        logger: logger.child({ component: 'admin' })
+      })
+    : undefined;
+  const adminServer =
+    adminHandler && admin?.port !== undefined
+      ? createAdminHttpServer(adminHandler, logger.child({ component: 'admin' }))
+      : undefined;
 
-  await registry.closeAll();
-  process.exit(0);
+  const httpOptions = {
+    originPolicy,
+    maxBodyBytes,
+    rateLimiter,
+    logger: logger.child({ component: 'http' }),
+    metrics,
+    legacySse,
+    stateless,
+    sessionDirectory,
+    auth: auth ? await BearerAuthenticator.create(auth) : undefined
+  };
+
+  const httpServer = createMcpHttpServer(registry, {
+    ...httpOptions,
+    admin: adminServer ? undefined : adminHandler
+  });
+
+  // Other workers forward requests for this worker's sessions here, on a port only it listens on.
+  // Without a directory this listener never forwards, whatever headers a request carries.
+  const forwardingServer =
+    sessionDirectory && createMcpHttpServer(registry, { ...httpOptions, sessionDirectory: undefined });
+  if (sessionDirectory && forwardingServer) {
+    await new Promise<void>((resolve) => {
+      forwardingServer.listen({ host: '127.0.0.1', port: 0, exclusive: true }, resolve);
+    });
+    const { port: forwardingPort } = forwardingServer.address() as AddressInfo;
+    sessionDirectory.advertise(`http://127.0.0.1:${forwardingPort}`);
+  }
+
+  httpServer.listen(port, host, () => {
+    logger.info('MCP Streamable HTTP server listening', {
+      endpoint: `http://${host}:${port}/mcp`,
+      sessionMode: stateless ? 'stateless' : 'stateful',
+      responseMode: registry.responseMode,
+      ...(legacySse ? { legacySse: `http://${host}:${port}/sse` } : {}),
+      health: `http://${host}:${port}/health`
+    });
+  });
+
+  if (adminServer && admin?.port !== undefined) {
+    const { port: adminPort, host: adminHost } = admin;
+    adminServer.listen(adminPort, adminHost, () => {
+      logger.info('admin API listening', { endpoint: `http://${adminHost}:${adminPort}/admin/sessions` });
+    });
+  }
+
+  return async () => {
+    // The listener stays open while draining so probes can see /readyz fail.
+    await registry.drain(shutdownGraceMs);
+
+    await Promise.all([
+      closeListener(httpServer),
+      adminServer && closeListener(adminServer),
+      forwardingServer && closeListener(forwardingServer)
+    ]);
+  };
 };
 
+const stop = transport === 'stdio' ? await startStdio() : await startHttp();
+
+// A terminal's Ctrl+C reaches every worker too; workers wait for the primary's SIGTERM instead.
 process.on('SIGINT', () => {
-  void gracefulShutdown('SIGINT');
+  if (!worker) {
+    void gracefulShutdown('SIGINT', stop);
+  }
 });
 
 process.on('SIGTERM', () => {
-  void gracefulShutdown('SIGTERM');
+  void gracefulShutdown('SIGTERM', stop);
 });
@@ -0,0 +1,201 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+
+import { LoggingLevelSchema } from '@modelcontextprotocol/server';
+import * as z from 'zod/v4';
+
+import { constantTimeEquals } from './auth.js';
+import { getHeader, readJsonBody, RequestRejectedError, sendJson } from './http-server.js';
+import { Logger } from './logger.js';
+import type { SessionRegistry } from './session-registry.js';
+
+export const ADMIN_PATH_PREFIX = '/admin';
+
+const MAX_ADMIN_BODY_BYTES = 64 * 1024;
+
+const SESSION_PATH = /^\/admin\/sessions\/([^/]+)(\/notifications)?$/;
+
+const AdminNotificationSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('log'),
+    level: LoggingLevelSchema,
+    data: z.unknown(),
+    logger: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('list_changed'),
+    list: z.enum(['tools', 'resources', 'prompts'])
+  })
+]);
+
+export type AdminNotification = z.infer<typeof AdminNotificationSchema>;
+
+export interface AdminApiOptions {
+  /** Bearer token every admin request must present. */
+  token: string;
+  logger?: Logger;
+}
+
+/** Handles `/admin/*` and returns `true`, or returns `false` for any other path. */
+export type AdminRequestHandler = (req: IncomingMessage, res: ServerResponse, url: URL) => Promise<boolean>;
+
+const isAuthorized = (req: IncomingMessage, token: string): boolean => {
+  const match = /^Bearer\s+(\S+)$/i.exec(getHeader(req, 'authorization')?.trim() ?? '');
+  return match?.[1] !== undefined && constantTimeEquals(match[1], token);
+};
+
+const sendMethodNotAllowed = (res: ServerResponse, allow: string): void => {
+  res.setHeader('allow', allow);
+  sendJson(res, 405, { error: 'Method not allowed' });
+};
+
+const readNotification = async (req: IncomingMessage): Promise<AdminNotification> => {
+  const parsed = AdminNotificationSchema.safeParse(await readJsonBody(req, MAX_ADMIN_BODY_BYTES));
+  if (!parsed.success) {
+    throw new RequestRejectedError(400, -32_602, z.prettifyError(parsed.error));
+  }
+  return parsed.data;
+};
+
+const sendNotification = async (
+  registry: SessionRegistry,
+  sessionId: string,
+  notification: AdminNotification
+): Promise<void> => {
+  const protocol = registry.get(sessionId)?.server.server;
+  if (!protocol) {
+    return;
+  }
+
+  if (notification.type === 'log') {
+    const { level, data, logger } = notification;
+    await protocol.sendLoggingMessage({ level, data, logger }, sessionId);
+    return;
+  }
+
+  switch (notification.list) {
+    case 'tools':
+      return protocol.sendToolListChanged();
+    case 'resources':
+      return protocol.sendResourceListChanged();
+    case 'prompts':
+      return protocol.sendPromptListChanged();
+  }
+};
+
+export const createAdminRequestHandler = (
+  registry: SessionRegistry,
+  { token, logger = new Logger() }: AdminApiOptions
+): AdminRequestHandler => {
+  const notify = async (res: ServerResponse, req: IncomingMessage, sessionIds: string[]): Promise<void> => {
+    const notification = await readNotification(req);
+    const results = await Promise.allSettled(
+      sessionIds.map((sessionId) => sendNotification(registry, sessionId, notification))
+    );
+    const delivered = results.filter((result) => result.status === 'fulfilled').length;
+
+    logger.info('admin notification sent', { notification: notification.type, delivered });
+    sendJson(res, 202, { delivered, failed: results.length - delivered });
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse, pathname: string): Promise<void> => {
+    const method = req.method ?? 'GET';
+
+    if (pathname === `${ADMIN_PATH_PREFIX}/sessions`) {
+      if (method !== 'GET') {
+        sendMethodNotAllowed(res, 'GET');
+        return;
+      }
+      sendJson(res, 200, { sessions: registry.list() });
+      return;
+    }
+
+    if (pathname === `${ADMIN_PATH_PREFIX}/notifications`) {
+      if (method !== 'POST') {
+        sendMethodNotAllowed(res, 'POST');
+        return;
+      }
+      await notify(
+        res,
+        req,
+        registry.list().map(({ sessionId }) => sessionId)
+      );
+      return;
+    }
+
+    const [, sessionId, notifications] = SESSION_PATH.exec(pathname) ?? [];
+    const details = sessionId ? registry.inspect(sessionId) : undefined;
+    if (!sessionId || !details) {
+      sendJson(res, 404, { error: sessionId ? `Session '${sessionId}' was not found.` : 'Not found' });
+      return;
+    }
+
+    if (notifications) {
+      if (method !== 'POST') {
+        sendMethodNotAllowed(res, 'POST');
+        return;
+      }
+      await notify(res, req, [sessionId]);
+      return;
+    }
+
+    if (method === 'GET') {
+      sendJson(res, 200, details);
+      return;
+    }
+
+    if (method === 'DELETE') {
+      await registry.closeSession(sessionId, 'admin');
+      logger.warn('session closed by admin', { sessionId });
+      sendJson(res, 200, { closed: true, sessionId });
+      return;
+    }
+
+    sendMethodNotAllowed(res, 'GET, DELETE');
+  };
+
+  return async (req, res, url) => {
+    if (url.pathname !== ADMIN_PATH_PREFIX && !url.pathname.startsWith(`${ADMIN_PATH_PREFIX}/`)) {
+      return false;
+    }
+
+    if (!isAuthorized(req, token)) {
+      res.setHeader('www-authenticate', 'Bearer realm="admin"');
+      sendJson(res, 401, { error: 'Admin token required.' });
+      return true;
+    }
+
+    try {
+      await route(req, res, url.pathname);
+    } catch (error) {
+      if (!(error instanceof RequestRejectedError)) {
+        throw error;
+      }
+      sendJson(res, error.statusCode, { error: error.message });
+    }
+    return true;
+  };
+};
+
+/** Serves only the admin routes, for binding to a private interface or port. */
+export const createAdminHttpServer = (handler: AdminRequestHandler, logger: Logger = new Logger()) =>
+  createServer(async (req, res) => {
+    const startedAtMs = Date.now();
+    res.on('close', () => {
+      logger.info('admin request', {
+        method: req.method,
+        path: req.url,
+        status: res.statusCode,
+        durationMs: Date.now() - startedAtMs
+      });
+    });
+
+    try {
+      const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+      if (!(await handler(req, res, url))) {
+        sendJson(res, 404, { error: 'Not found' });
+      }
+    } catch (error) {
+      logger.error('admin request failed', { error });
+      sendJson(res, 500, { error: 'Internal server error' });
+    }
+  });
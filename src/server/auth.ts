@@ -0,0 +1,239 @@
+import { createPublicKey, type JsonWebKey, type KeyObject, timingSafeEqual, verify } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+
+import type { AuthInfo, OAuthProtectedResourceMetadata } from '@modelcontextprotocol/server';
+import * as z from 'zod/v4';
+
+export interface ApiKeyEntry {
+  clientId: string;
+  token: string;
+  scopes: string[];
+}
+
+export interface JwtVerificationConfig {
+  jwksFile: string;
+  issuer?: string;
+  audience?: string;
+}
+
+export interface AuthConfig {
+  /** Canonical URL of the protected `/mcp` resource, advertised in metadata and checked as JWT audience. */
+  resourceUrl: string;
+  authorizationServers: string[];
+  scopesSupported: string[];
+  apiKeys: ApiKeyEntry[];
+  jwt?: JwtVerificationConfig;
+}
+
+export type AuthResult =
+  | { ok: true; authInfo: AuthInfo }
+  | { ok: false; error?: 'invalid_request' | 'invalid_token'; description: string };
+
+const JwtHeaderSchema = z.object({
+  alg: z.string().optional(),
+  kid: z.string().optional()
+});
+
+const JwtClaimsSchema = z.object({
+  sub: z.string().optional(),
+  iss: z.string().optional(),
+  aud: z.union([z.string(), z.array(z.string())]).optional(),
+  exp: z.number().optional(),
+  nbf: z.number().optional(),
+  scope: z.string().optional(),
+  scp: z.array(z.string()).optional(),
+  client_id: z.string().optional(),
+  azp: z.string().optional()
+});
+
+interface Jwk extends JsonWebKey {
+  kid?: string;
+}
+
+interface JwtAlgorithm {
+  hash: string;
+  keyType: 'rsa' | 'ec';
+  /** Curve an `ec` key must use, as Node names it. */
+  namedCurve?: string;
+}
+
+const SUPPORTED_ALGORITHMS: Record<string, JwtAlgorithm> = {
+  RS256: { hash: 'sha256', keyType: 'rsa' },
+  RS384: { hash: 'sha384', keyType: 'rsa' },
+  RS512: { hash: 'sha512', keyType: 'rsa' },
+  ES256: { hash: 'sha256', keyType: 'ec', namedCurve: 'prime256v1' },
+  ES384: { hash: 'sha384', keyType: 'ec', namedCurve: 'secp384r1' }
+};
+
+// A token may only name an algorithm its key can actually produce.
+const keyFitsAlgorithm = (key: KeyObject, algorithm: JwtAlgorithm): boolean =>
+  key.asymmetricKeyType === algorithm.keyType &&
+  (algorithm.namedCurve === undefined || key.asymmetricKeyDetails?.namedCurve === algorithm.namedCurve);
+
+export const PROTECTED_RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource';
+
+export const getPrincipal = (authInfo: AuthInfo): string => {
+  const subject = authInfo.extra?.subject;
+  return typeof subject === 'string' ? subject : authInfo.clientId;
+};
+
+const decodeSegment = (segment: string): unknown =>
+  JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+export const constantTimeEquals = (left: string, right: string): boolean => {
+  const leftBuffer = Buffer.from(left);
+  const rightBuffer = Buffer.from(right);
+  return leftBuffer.length === rightBuffer.length && timingSafeEqual(leftBuffer, rightBuffer);
+};
+
+export class BearerAuthenticator {
+  private constructor(
+    private readonly config: AuthConfig,
+    private readonly keys: Map<string | undefined, KeyObject>
+  ) {}
+
+  static async create(config: AuthConfig): Promise<BearerAuthenticator> {
+    const keys = new Map<string | undefined, KeyObject>();
+    if (config.jwt) {
+      const jwks = JSON.parse(await readFile(config.jwt.jwksFile, 'utf8')) as { keys?: Jwk[] };
+      for (const jwk of jwks.keys ?? []) {
+        keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+      }
+    }
+
+    return new BearerAuthenticator(config, keys);
+  }
+
+  get resourceMetadataUrl(): string {
+    return new URL(PROTECTED_RESOURCE_METADATA_PATH, this.config.resourceUrl).href;
+  }
+
+  getResourceMetadata(): OAuthProtectedResourceMetadata {
+    return {
+      resource: this.config.resourceUrl,
+      authorization_servers: this.config.authorizationServers,
+      scopes_supported: this.config.scopesSupported,
+      bearer_methods_supported: ['header']
+    };
+  }
+
+  authenticate(authorizationHeader: string | undefined): AuthResult {
+    if (!authorizationHeader) {
+      return { ok: false, description: 'Bearer token required.' };
+    }
+
+    const match = /^Bearer\s+(\S+)$/i.exec(authorizationHeader.trim());
+    if (!match?.[1]) {
+      return {
+        ok: false,
+        error: 'invalid_request',
+        description: 'Authorization header must use the Bearer scheme.'
+      };
+    }
+
+    const token = match[1];
+    const apiKey = this.config.apiKeys.find((entry) => constantTimeEquals(entry.token, token));
+    if (apiKey) {
+      return {
+        ok: true,
+        authInfo: {
+          token,
+          clientId: apiKey.clientId,
+          scopes: apiKey.scopes,
+          extra: { subject: apiKey.clientId }
+        }
+      };
+    }
+
+    if (this.config.jwt && token.split('.').length === 3) {
+      return this.verifyJwt(token);
+    }
+
+    return { ok: false, error: 'invalid_token', description: 'Token is not recognized.' };
+  }
+
+  private verifyJwt(token: string): AuthResult {
+    const [encodedHeader = '', encodedClaims = '', encodedSignature = ''] = token.split('.');
+
+    // Segments that decode to anything but an object with the expected claim types are malformed.
+    let header: z.infer<typeof JwtHeaderSchema>;
+    let claims: z.infer<typeof JwtClaimsSchema>;
+    try {
+      header = JwtHeaderSchema.parse(decodeSegment(encodedHeader));
+      claims = JwtClaimsSchema.parse(decodeSegment(encodedClaims));
+    } catch {
+      return { ok: false, error: 'invalid_token', description: 'Token is malformed.' };
+    }
+
+    const algorithm = header.alg ? SUPPORTED_ALGORITHMS[header.alg] : undefined;
+    const key = this.keys.get(header.kid) ?? (this.keys.size === 1 ? [...this.keys.values()][0] : undefined);
+    if (!algorithm || !key || !keyFitsAlgorithm(key, algorithm)) {
+      return {
+        ok: false,
+        error: 'invalid_token',
+        description: 'Token signing key or algorithm is not accepted.'
+      };
+    }
+
+    const signatureValid = verify(
+      algorithm.hash,
+      Buffer.from(`${encodedHeader}.${encodedClaims}`),
+      algorithm.keyType === 'ec' ? { key, dsaEncoding: 'ieee-p1363' } : key,
+      Buffer.from(encodedSignature, 'base64url')
+    );
+    if (!signatureValid) {
+      return { ok: false, error: 'invalid_token', description: 'Token signature is invalid.' };
+    }
+
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    if (claims.exp === undefined) {
+      return { ok: false, error: 'invalid_token', description: 'Token has no expiry.' };
+    }
+    if (claims.exp <= nowSeconds) {
+      return { ok: false, error: 'invalid_token', description: 'Token has expired.' };
+    }
+    if (claims.nbf !== undefined && claims.nbf > nowSeconds) {
+      return { ok: false, error: 'invalid_token', description: 'Token is not valid yet.' };
+    }
+
+    const { issuer, audience = this.config.resourceUrl } = this.config.jwt ?? {};
+    if (issuer && claims.iss !== issuer) {
+      return { ok: false, error: 'invalid_token', description: 'Token issuer is not trusted.' };
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : claims.aud ? [claims.aud] : [];
+    if (!audiences.includes(audience)) {
+      return {
+        ok: false,
+        error: 'invalid_token',
+        description: 'Token audience does not match this resource.'
+      };
+    }
+
+    const clientId = claims.client_id ?? claims.azp ?? claims.sub;
+    if (!clientId) {
+      return { ok: false, error: 'invalid_token', description: 'Token has no subject or client ID.' };
+    }
+
+    return {
+      ok: true,
+      authInfo: {
+        token,
+        clientId,
+        scopes: claims.scp ?? claims.scope?.split(' ').filter(Boolean) ?? [],
+        expiresAt: claims.exp,
+        resource: new URL(this.config.resourceUrl),
+        extra: { subject: claims.sub ?? clientId }
+      }
+    };
+  }
+
+  challenge(result: Extract<AuthResult, { ok: false }>): string {
+    const params = [`resource_metadata="${this.resourceMetadataUrl}"`];
+    if (result.error) {
+      params.push(`error="${result.error}"`, `error_description="${result.description}"`);
+    }
+
+    return `Bearer ${params.join(', ')}`;
+  }
+}
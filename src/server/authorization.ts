@@ -0,0 +1,190 @@
+import type {
+  AuthInfo,
+  CallToolResult,
+  CompleteRequest,
+  McpServer,
+  ServerContext
+} from '@modelcontextprotocol/server';
+import { ProtocolError, UriTemplate } from '@modelcontextprotocol/server';
+
+import { wrapRequestHandlers } from './request-handlers.js';
+
+export const INSUFFICIENT_SCOPE_ERROR_CODE = -32_003;
+
+type PrimitiveKind = 'tool' | 'resource' | 'prompt';
+
+const isServerContext = (value: unknown): value is ServerContext =>
+  typeof value === 'object' && value !== null && 'mcpReq' in value;
+
+// The SDK passes the request context as a handler's last argument.
+const findContext = (args: readonly unknown[]): ServerContext | undefined => {
+  const last = args.at(-1);
+  return isServerContext(last) ? last : undefined;
+};
+
+const grantedScopes = (authInfo: AuthInfo | undefined): string[] | undefined => authInfo?.scopes;
+
+export class ScopePolicy {
+  private readonly requirements = new Map<string, string[]>();
+  private readonly templates: Array<{ template: UriTemplate; scopes: string[] }> = [];
+
+  /**
+   * Filters every list result by the caller's scopes and refuses completions for primitives
+   * the caller cannot use. Must run before the first registration, because `McpServer`
+   * installs its list and completion handlers lazily on first use.
+   */
+  attach(server: McpServer): void {
+    wrapRequestHandlers(server, {
+      'tools/list': (handler) => async (request, ctx) => {
+        const list = await handler(request, ctx);
+        return {
+          ...list,
+          tools: list.tools.filter((tool) => this.isAllowed('tool', tool.name, ctx.http?.authInfo))
+        };
+      },
+      'resources/list': (handler) => async (request, ctx) => {
+        const list = await handler(request, ctx);
+        return {
+          ...list,
+          resources: list.resources.filter((resource) =>
+            this.isAllowed('resource', resource.uri, ctx.http?.authInfo)
+          )
+        };
+      },
+      'resources/templates/list': (handler) => async (request, ctx) => {
+        const list = await handler(request, ctx);
+        return {
+          ...list,
+          resourceTemplates: list.resourceTemplates.filter((template) =>
+            this.isAllowed('resource', template.uriTemplate, ctx.http?.authInfo)
+          )
+        };
+      },
+      'prompts/list': (handler) => async (request, ctx) => {
+        const list = await handler(request, ctx);
+        return {
+          ...list,
+          prompts: list.prompts.filter((prompt) => this.isAllowed('prompt', prompt.name, ctx.http?.authInfo))
+        };
+      },
+      'completion/complete': (handler) => async (request, ctx) => {
+        this.assertCompletionAllowed(request, ctx.http?.authInfo);
+        return handler(request, ctx);
+      }
+    });
+  }
+
+  tool<Args extends unknown[]>(
+    name: string,
+    scopes: string[],
+    handler: (...args: Args) => Promise<CallToolResult>
+  ): (...args: Args) => Promise<CallToolResult> {
+    this.requirements.set(`tool:${name}`, scopes);
+
+    return async (...args) => {
+      const missing = this.missingScopes(scopes, findContext(args)?.http?.authInfo);
+      if (missing.length > 0) {
+        return insufficientScopeResult(`tool '${name}'`, scopes, missing);
+      }
+      return handler(...args);
+    };
+  }
+
+  resource<Args extends unknown[], Result>(
+    uriOrTemplate: string,
+    scopes: string[],
+    handler: (...args: Args) => Promise<Result>
+  ): (...args: Args) => Promise<Result> {
+    if (uriOrTemplate.includes('{')) {
+      this.templates.push({ template: new UriTemplate(uriOrTemplate), scopes });
+    }
+    this.requirements.set(`resource:${uriOrTemplate}`, scopes);
+    return this.guard('resource', uriOrTemplate, scopes, handler);
+  }
+
+  prompt<Args extends unknown[], Result>(
+    name: string,
+    scopes: string[],
+    handler: (...args: Args) => Promise<Result>
+  ): (...args: Args) => Promise<Result> {
+    this.requirements.set(`prompt:${name}`, scopes);
+    return this.guard('prompt', name, scopes, handler);
+  }
+
+  isAllowed(kind: PrimitiveKind, key: string, authInfo: AuthInfo | undefined): boolean {
+    const scopes = this.requirements.get(`${kind}:${key}`) ?? this.templateScopesFor(key);
+    return scopes === undefined || this.missingScopes(scopes, authInfo).length === 0;
+  }
+
+  /** Throws the same `insufficient_scope` error as a guarded handler, for checks outside one. */
+  assertAllowed(kind: PrimitiveKind, key: string, authInfo: AuthInfo | undefined): void {
+    const scopes = this.requirements.get(`${kind}:${key}`) ?? this.templateScopesFor(key);
+    if (scopes) {
+      this.assertScopes(kind, key, scopes, authInfo);
+    }
+  }
+
+  private assertCompletionAllowed({ params }: CompleteRequest, authInfo: AuthInfo | undefined): void {
+    if (params.ref.type === 'ref/prompt') {
+      this.assertAllowed('prompt', params.ref.name, authInfo);
+    } else {
+      this.assertAllowed('resource', params.ref.uri, authInfo);
+    }
+  }
+
+  private guard<Args extends unknown[], Result>(
+    kind: PrimitiveKind,
+    key: string,
+    scopes: string[],
+    handler: (...args: Args) => Promise<Result>
+  ): (...args: Args) => Promise<Result> {
+    return async (...args) => {
+      this.assertScopes(kind, key, scopes, findContext(args)?.http?.authInfo);
+      return handler(...args);
+    };
+  }
+
+  private assertScopes(
+    kind: PrimitiveKind,
+    key: string,
+    scopes: string[],
+    authInfo: AuthInfo | undefined
+  ): void {
+    const missing = this.missingScopes(scopes, authInfo);
+    if (missing.length > 0) {
+      throw new ProtocolError(
+        INSUFFICIENT_SCOPE_ERROR_CODE,
+        `Insufficient scope for ${kind} '${key}'. Missing: ${missing.join(', ')}.`,
+        { error: 'insufficient_scope', requiredScopes: scopes, missingScopes: missing }
+      );
+    }
+  }
+
+  private missingScopes(required: string[], authInfo: AuthInfo | undefined): string[] {
+    const granted = grantedScopes(authInfo);
+    // Without authentication there is no principal to restrict.
+    if (granted === undefined) {
+      return [];
+    }
+    return required.filter((scope) => !granted.includes(scope));
+  }
+
+  private templateScopesFor(uri: string): string[] | undefined {
+    return this.templates.find(({ template }) => template.match(uri) !== null)?.scopes;
+  }
+}
+
+export const insufficientScopeResult = (
+  target: string,
+  requiredScopes: string[],
+  missingScopes: string[]
+): CallToolResult => ({
+  content: [
+    {
+      type: 'text',
+      text: `Insufficient scope for ${target}. Missing: ${missingScopes.join(', ')}.`
+    }
+  ],
+  structuredContent: { error: { code: 'insufficient_scope', requiredScopes, missingScopes } },
+  isError: true
+});
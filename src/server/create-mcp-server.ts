@@ -1,7 +1,70 @@
-import type { CallToolResult, GetPromptResult, ReadResourceResult } from '@modelcontextprotocol/server';
-import { McpServer, ResourceTemplate } from '@modelcontextprotocol/server';
+import type {
+  CallToolResult,
+  GetPromptResult,
+  ReadResourceResult,
+  ServerContext
+} from '@modelcontextprotocol/server';
+import {
+  completable,
+  McpServer,
+  ProtocolError,
+  ProtocolErrorCode,
+  ResourceTemplate
+} from '@modelcontextprotocol/server';
 import * as z from 'zod/v4';
 
+import { ScopePolicy } from './authorization.js';
+import {
+  evaluateExpression,
+  EXPRESSION_CONSTANTS,
+  EXPRESSION_FUNCTIONS,
+  ExpressionError,
+  expressionErrorResult,
+  type ExpressionResult,
+  MAX_EXPRESSION_LENGTH,
+  PRECISION_MODES
+} from './expression.js';
+import {
+  type HistoryOwner,
+  type HistoryRepository,
+  InMemoryHistoryRepository
+} from './history-repository.js';
+import { Logger, logToClient } from './logger.js';
+import { ServerMetrics } from './metrics.js';
+import { paginateResourceList } from './resource-pagination.js';
+import { ResourceSubscriptions } from './resource-subscriptions.js';
+import { SERIES_DESCRIPTIONS, SERIES_NAMES, sumSeries } from './series.js';
+import {
+  createToolRegistrar,
+  type OutputValidationMode,
+  ToolError,
+  toolErrorResult
+} from './tool-registrar.js';
+
+export const CALCULATOR_SCOPES = {
+  read: 'calc:read',
+  write: 'calc:write'
+} as const;
+
+const RESOURCE_NOT_FOUND_ERROR_CODE = -32_002;
+
+const SESSION_HISTORY_URI = 'calc://history';
+
+const SHARED_HISTORY_COLLECTIONS: Record<HistoryOwner['kind'], string> = {
+  user: 'users',
+  workspace: 'workspaces'
+};
+
+const sharedHistoryUri = (kind: HistoryOwner['kind'], id: string): string =>
+  `calc://${SHARED_HISTORY_COLLECTIONS[kind]}/${encodeURIComponent(id)}/history`;
+
+/**
+ * Distinct candidates that start with `value`, most recent first. The SDK sends at most
+ * 100 of them and reports `total` and `hasMore` for the rest.
+ */
+const completeByPrefix = (candidates: string[], value: string): string[] =>
+  [...new Set([...candidates].reverse())].filter((candidate) => candidate.startsWith(value));
+
 const OperationSchema = z.enum(['add', 'subtract', 'multiply', 'divide']);
 
 type Operation = z.infer<typeof OperationSchema>;
@@ -15,6 +78,15 @@ export interface CalculationRecord {
   createdAt: string;
 }
 
+const CalculationRecordSchema = z.object({
+  id: z.string(),
+  operation: OperationSchema,
+  left: z.number(),
+  right: z.number(),
+  result: z.number(),
+  createdAt: z.string()
+});
+
 const toFormula = (record: CalculationRecord): string => {
   const symbolByOperation: Record<Operation, string> = {
     add: '+',
@@ -37,7 +109,7 @@ const evaluate = (left: number, right: number, operation: Operation): number =>
       return left * right;
     case 'divide':
       if (right === 0) {
-        throw new Error('Division by zero is not allowed.');
+        throw new ToolError('division_by_zero', 'Division by zero is not allowed.');
       }
       return left / right;
     default:
@@ -45,13 +117,67 @@ const evaluate = (left: number, right: number, operation: Operation): number =>
   }
 };
 
+const CalculationOutputSchema = z.object({
+  id: z.string(),
+  result: z.number(),
+  formula: z.string()
+});
+
+// Beyond this, doubles can no longer represent every integer, so results may be silently rounded.
+const LARGE_OPERAND_THRESHOLD = Number.MAX_SAFE_INTEGER;
+
+const SAMPLING_MAX_TOKENS = 400;
+
+const ExplanationOutputSchema = z.object({
+  id: z.string(),
+  formula: z.string(),
+  explanation: z.string(),
+  source: z.enum(['sampling', 'fallback']),
+  model: z.string().optional()
+});
+
+const WORD_BY_OPERATION: Record<Operation, string> = {
+  add: 'plus',
+  subtract: 'minus',
+  multiply: 'times',
+  divide: 'divided by'
+};
+
+export interface ExampleServerState {
+  history: CalculationRecord[];
+  /** Resource URIs the client subscribed to, restored with the session. */
+  subscriptions?: string[];
+}
+
+export interface ExampleMcpServerOptions {
+  initialState?: ExampleServerState;
+  onStateChange?: (state: ExampleServerState) => void;
+  /** Server-side sink for handler logs; the same messages are sent to the client. */
+  logger?: Logger;
+  metrics?: ServerMetrics;
+  /** Cross-session history shared by every session with the same owner. */
+  history?: HistoryRepository;
+  /** Owner this session's calculations are shared with; without one only session history is kept. */
+  historyOwner?: HistoryOwner;
+  resourcePageSize?: number;
+  outputValidation?: OutputValidationMode;
+}
+
 export interface ExampleMcpServer {
   server: McpServer;
   getHistory: () => CalculationRecord[];
+  getState: () => ExampleServerState;
+  /** Stops watching shared history and closes the server. */
+  close: () => Promise<void>;
 }
 
-export const createExampleMcpServer = (): ExampleMcpServer => {
-  const history: CalculationRecord[] = [];
+export const createExampleMcpServer = (options: ExampleMcpServerOptions = {}): ExampleMcpServer => {
+  const history: CalculationRecord[] = [...(options.initialState?.history ?? [])];
+  const logger = options.logger ?? new Logger();
+  const metrics = options.metrics ?? new ServerMetrics();
+  const sharedHistory = options.history ?? new InMemoryHistoryRepository();
+  const { historyOwner } = options;
+  const ownSharedHistoryUri = historyOwner && sharedHistoryUri(historyOwner.kind, historyOwner.id);
 
   const server = new McpServer(
     {
@@ -63,7 +189,115 @@ export const createExampleMcpServer = (): ExampleMcpServer => {
     }
   );
 
-  server.registerTool(
+  paginateResourceList(server, options.resourcePageSize);
+
+  const scopes = new ScopePolicy();
+  scopes.attach(server);
+
+  const isSubscribable = (uri: string): boolean => {
+    if (uri === SESSION_HISTORY_URI || uri === ownSharedHistoryUri) {
+      return true;
+    }
+    const id = /^calc:\/\/history\/([^/]+)$/.exec(uri)?.[1];
+    return id !== undefined && history.some((record) => record.id === id);
+  };
+
+  let unwatchSharedHistory: (() => void) | undefined;
+
+  // Only sessions subscribed to their shared history listen for other sessions' appends.
+  const watchSharedHistory = (uris: string[]): void => {
+    if (!historyOwner || !ownSharedHistoryUri) {
+      return;
+    }
+
+    const subscribed = uris.includes(ownSharedHistoryUri);
+    if (subscribed && !unwatchSharedHistory) {
+      unwatchSharedHistory = sharedHistory.watch(historyOwner, () => {
+        void subscriptions.notifyUpdated(ownSharedHistoryUri);
+      });
+    } else if (!subscribed && unwatchSharedHistory) {
+      unwatchSharedHistory();
+      unwatchSharedHistory = undefined;
+    }
+  };
+
+  const subscriptions: ResourceSubscriptions = new ResourceSubscriptions(server, {
+    initial: options.initialState?.subscriptions,
+    authorize: (uri, ctx) => {
+      // Unknown and other owners' URIs get the same not-found error as resources/read.
+      if (!isSubscribable(uri)) {
+        throw new ProtocolError(RESOURCE_NOT_FOUND_ERROR_CODE, `Resource ${uri} not found.`);
+      }
+      scopes.assertAllowed('resource', uri, ctx.http?.authInfo);
+    },
+    onChange: (uris) => {
+      watchSharedHistory(uris);
+      options.onStateChange?.(getState());
+    },
+    logger
+  });
+  subscriptions.attach();
+  watchSharedHistory(subscriptions.list());
+
+  const getState = (): ExampleServerState => ({
+    history: [...history],
+    subscriptions: subscriptions.list()
+  });
+
+  const registerTool = createToolRegistrar(server, {
+    scopes,
+    metrics,
+    logger,
+    outputValidation: options.outputValidation
+  });
+
+  const recordCalculation = async (
+    tool: string,
+    operation: Operation,
+    left: number,
+    right: number,
+    ctx: ServerContext
+  ): Promise<CallToolResult> => {
+    const result = evaluate(left, right, operation);
+    // Overflow such as `1e308 * 10` gives Infinity, which has no JSON form and must not reach history.
+    if (!Number.isFinite(result)) {
+      throw new ToolError('non_finite_result', 'Result is not a finite number.');
+    }
+    const record: CalculationRecord = {
+      id: `calc_${history.length + 1}`,
+      operation,
+      left,
+      right,
+      result,
+      createdAt: new Date().toISOString()
+    };
+
+    history.push(record);
+    options.onStateChange?.(getState());
+    if (historyOwner) {
+      await sharedHistory
+        .append(historyOwner, { ...record, sessionId: ctx.sessionId ?? 'unknown' })
+        .catch((error: unknown) => {
+          logger.error('failed to append shared history', { error, owner: historyOwner.kind });
+        });
+    }
+    await subscriptions.notifyUpdated(SESSION_HISTORY_URI);
+    server.sendResourceListChanged();
+    await logToClient(logger, ctx, 'info', `Calculated ${toFormula(record)}`, { tool });
+
+    const output = {
+      id: record.id,
+      result: record.result,
+      formula: toFormula(record)
+    };
+
+    return {
+      content: [{ type: 'text', text: output.formula }],
+      structuredContent: output
+    };
+  };
+
+  registerTool(
     'calculate',
     {
       title: 'Calculator',
@@ -73,49 +307,348 @@ export const createExampleMcpServer = (): ExampleMcpServer => {
         left: z.number().describe('Left-hand value.'),
         right: z.number().describe('Right-hand value.')
       }),
-      outputSchema: z.object({
-        id: z.string(),
-        result: z.number(),
-        formula: z.string()
-      })
+      outputSchema: CalculationOutputSchema,
+      scopes: [CALCULATOR_SCOPES.write]
+    },
+    async ({ operation, left, right }, ctx): Promise<CallToolResult> =>
+      recordCalculation('calculate', operation, left, right, ctx)
+  );
+
+  // Server-to-client requests are sent with the tool call's ID so they travel on its POST stream.
+  const clientCapabilities = () => server.server.getClientCapabilities();
+
+  registerTool(
+    'calculate-interactive',
+    {
+      title: 'Interactive Calculator',
+      description:
+        'Like calculate, but asks the user for a missing operand and for confirmation before using ' +
+        'operands too large to represent exactly. Needs client elicitation support to ask.',
+      inputSchema: z.object({
+        operation: OperationSchema.describe('One of add, subtract, multiply, divide.'),
+        left: z.number().optional().describe('Left-hand value; asked for when omitted.'),
+        right: z.number().optional().describe('Right-hand value; asked for when omitted.')
+      }),
+      outputSchema: CalculationOutputSchema,
+      scopes: [CALCULATOR_SCOPES.write]
     },
-    async ({ operation, left, right }, ctx): Promise<CallToolResult> => {
-      const result = evaluate(left, right, operation);
-      const record: CalculationRecord = {
-        id: `calc_${history.length + 1}`,
-        operation,
-        left,
-        right,
-        result,
-        createdAt: new Date().toISOString()
+    async ({ operation, ...given }, ctx): Promise<CallToolResult> => {
+      const canElicit = clientCapabilities()?.elicitation?.form !== undefined;
+      const operands = { ...given };
+      const missing = (['left', 'right'] as const).filter((name) => operands[name] === undefined);
+
+      if (missing.length > 0) {
+        if (!canElicit) {
+          return toolErrorResult(
+            'missing_operand',
+            `Provide ${missing.join(' and ')}; this client cannot be asked for input.`
+          );
+        }
+
+        const answer = await ctx.mcpReq
+          .elicitInput(
+            {
+              mode: 'form',
+              message: `Enter ${missing.join(' and ')} to ${operation}.`,
+              requestedSchema: {
+                type: 'object',
+                properties: Object.fromEntries(
+                  missing.map((name) => [name, { type: 'number', title: `${name} operand` }])
+                ),
+                required: [...missing]
+              }
+            },
+            { relatedRequestId: ctx.mcpReq.id }
+          )
+          .catch((error: unknown) => {
+            // The SDK rejects accepted content that does not match the form with InvalidParams.
+            if (error instanceof ProtocolError && error.code === ProtocolErrorCode.InvalidParams) {
+              return undefined;
+            }
+            throw error;
+          });
+        if (!answer) {
+          return toolErrorResult('missing_operand', `Enter a number for ${missing.join(' and ')}.`);
+        }
+        if (answer.action !== 'accept') {
+          return toolErrorResult(
+            answer.action,
+            `The user chose to ${answer.action} instead of entering operands.`
+          );
+        }
+        for (const name of missing) {
+          // `Number` turns a blank answer into 0 and anything unparsable into NaN; neither is an operand.
+          const value = answer.content?.[name];
+          const operand =
+            typeof value === 'number' || (typeof value === 'string' && value.trim() !== '')
+              ? Number(value)
+              : Number.NaN;
+          if (!Number.isFinite(operand)) {
+            return toolErrorResult('missing_operand', `Enter a number for ${name}.`);
+          }
+          operands[name] = operand;
+        }
+      }
+
+      const { left, right } = operands;
+      if (left === undefined || right === undefined) {
+        return toolErrorResult('missing_operand', 'Both operands are required.');
+      }
+
+      const large = Math.max(Math.abs(left), Math.abs(right)) > LARGE_OPERAND_THRESHOLD;
+      if (large && canElicit) {
+        const answer = await ctx.mcpReq.elicitInput(
+          {
+            mode: 'form',
+            message:
+              `${left} or ${right} is larger than ${LARGE_OPERAND_THRESHOLD}, ` +
+              `so the ${operation} result may be rounded. Continue?`,
+            requestedSchema: {
+              type: 'object',
+              properties: { confirm: { type: 'boolean', title: 'Continue', default: false } },
+              required: ['confirm']
+            }
+          },
+          { relatedRequestId: ctx.mcpReq.id }
+        );
+        if (answer.action !== 'accept' || answer.content?.confirm !== true) {
+          return toolErrorResult('not_confirmed', 'The user did not confirm the calculation.');
+        }
+      } else if (large) {
+        await logToClient(
+          logger,
+          ctx,
+          'warning',
+          'Operands exceed the exact integer range; result may be rounded',
+          {
+            tool: 'calculate-interactive'
+          }
+        );
+      }
+
+      return recordCalculation('calculate-interactive', operation, left, right, ctx);
+    }
+  );
+
+  registerTool(
+    'explain-calculation-record',
+    {
+      title: 'Explain Calculation',
+      description:
+        "Ask the client's model, through sampling, to explain a calculation from session history. " +
+        'Returns a built-in explanation when the client does not support sampling.',
+      inputSchema: z.object({
+        id: z.string().describe('Calculation ID, for example calc_1.')
+      }),
+      outputSchema: ExplanationOutputSchema,
+      scopes: [CALCULATOR_SCOPES.read]
+    },
+    async ({ id }, ctx): Promise<CallToolResult> => {
+      const record = history.find((item) => item.id === id);
+      if (!record) {
+        return toolErrorResult('not_found', `Calculation '${id}' not found.`);
+      }
+
+      const formula = toFormula(record);
+      let output: z.infer<typeof ExplanationOutputSchema>;
+
+      if (clientCapabilities()?.sampling) {
+        const response = await ctx.mcpReq.requestSampling(
+          {
+            messages: [
+              {
+                role: 'user',
+                content: {
+                  type: 'text',
+                  text: `Explain this calculation step by step for a beginner: ${formula}\n\n${JSON.stringify(record)}`
+                }
+              }
+            ],
+            systemPrompt: 'You explain arithmetic clearly and briefly.',
+            maxTokens: SAMPLING_MAX_TOKENS
+          },
+          { relatedRequestId: ctx.mcpReq.id }
+        );
+        const content = Array.isArray(response.content) ? response.content : [response.content];
+        const explanation = content
+          .flatMap((block) => (block.type === 'text' ? [block.text] : []))
+          .join('\n');
+        output = { id, formula, explanation, source: 'sampling', model: response.model };
+      } else {
+        output = {
+          id,
+          formula,
+          explanation: `${record.left} ${WORD_BY_OPERATION[record.operation]} ${record.right} is ${record.result}.`,
+          source: 'fallback'
+        };
+      }
+
+      return {
+        content: [{ type: 'text', text: output.explanation }],
+        structuredContent: output
       };
+    }
+  );
 
-      history.push(record);
-      await ctx.mcpReq.log('info', `Calculated ${toFormula(record)}`);
+  registerTool(
+    'evaluate-expression',
+    {
+      title: 'Expression Evaluator',
+      description:
+        'Evaluate an arithmetic expression with parentheses, + - * / % ^, functions, constants, and ' +
+        '$calc_N references to earlier calculate results. Does not record history.',
+      inputSchema: z.object({
+        expression: z
+          .string()
+          .min(1)
+          .max(MAX_EXPRESSION_LENGTH)
+          .describe(
+            `For example: (2 + 3) ^ 2 / $calc_1. Functions: ${EXPRESSION_FUNCTIONS.join(', ')}. ` +
+              `Constants: ${EXPRESSION_CONSTANTS.join(', ')}.`
+          ),
+        mode: z
+          .enum(PRECISION_MODES)
+          .default('float')
+          .describe(
+            "'float' (IEEE 754), 'rational' (exact fractions), or 'decimal' (rounded to `decimals`)."
+          ),
+        decimals: z
+          .number()
+          .int()
+          .min(0)
+          .max(20)
+          .default(2)
+          .describe('Places after the decimal point in decimal mode.')
+      }),
+      outputSchema: z.object({
+        mode: z.enum(PRECISION_MODES),
+        result: z.string(),
+        value: z.number()
+      }),
+      scopes: [CALCULATOR_SCOPES.read]
+    },
+    async ({ expression, mode, decimals }, ctx): Promise<CallToolResult> => {
+      let output: ExpressionResult;
+      try {
+        output = evaluateExpression(expression, {
+          mode,
+          decimals,
+          resolveReference: (id) => history.find((record) => record.id === id)?.result
+        });
+      } catch (error) {
+        if (error instanceof ExpressionError) {
+          return expressionErrorResult(error, expression);
+        }
+        throw error;
+      }
+
+      await logToClient(logger, ctx, 'info', `Evaluated ${expression} = ${output.result}`, {
+        tool: 'evaluate-expression'
+      });
 
-      const output = {
-        id: record.id,
-        result: record.result,
-        formula: toFormula(record)
+      return {
+        content: [{ type: 'text', text: output.result }],
+        structuredContent: { ...output }
       };
+    }
+  );
+
+  registerTool(
+    'compute-series',
+    {
+      title: 'Series Computation',
+      description:
+        'Sum the first terms of a numeric series in steps, reporting progress after each step. ' +
+        'Send a progress token to receive notifications/progress; cancel with notifications/cancelled.',
+      inputSchema: z.object({
+        series: z
+          .enum(SERIES_NAMES)
+          .describe(SERIES_NAMES.map((name) => `${name}: ${SERIES_DESCRIPTIONS[name]}`).join('; ')),
+        terms: z.number().int().positive().max(10_000_000).default(100_000),
+        steps: z.number().int().positive().max(100).default(10).describe('Progress notifications to send.'),
+        delayMs: z
+          .number()
+          .int()
+          .min(0)
+          .max(5_000)
+          .default(200)
+          .describe('Pause after each step to simulate slow work.')
+      }),
+      outputSchema: z.object({
+        series: z.enum(SERIES_NAMES),
+        terms: z.number(),
+        value: z.number()
+      }),
+      scopes: [CALCULATOR_SCOPES.read]
+    },
+    async ({ series, terms, steps, delayMs }, ctx): Promise<CallToolResult> => {
+      const progressToken = ctx.mcpReq._meta?.progressToken;
+      const outcome = await sumSeries(series, {
+        terms,
+        steps: Math.min(steps, terms),
+        delayMs,
+        signal: ctx.mcpReq.signal,
+        // Related to this request, so progress travels on the tools/call response stream.
+        onStep: async ({ completedTerms, partialSum }) => {
+          if (progressToken === undefined) {
+            return;
+          }
+          await ctx.mcpReq.notify({
+            method: 'notifications/progress',
+            params: {
+              progressToken,
+              progress: completedTerms,
+              total: terms,
+              message: `${completedTerms} of ${terms} terms, partial sum ${partialSum}`
+            }
+          });
+        }
+      });
+
+      // The SDK drops the response to a cancelled request; this result is only logged.
+      if (outcome.cancelled) {
+        logger.info('series computation cancelled', {
+          sessionId: ctx.sessionId,
+          rpcId: ctx.mcpReq.id,
+          completedTerms: outcome.completedTerms
+        });
+        return toolErrorResult('cancelled', `Cancelled after ${outcome.completedTerms} of ${terms} terms.`);
+      }
+
+      await logToClient(logger, ctx, 'info', `Summed ${terms} terms of ${series}`, {
+        tool: 'compute-series'
+      });
 
+      const output = { series, terms, value: outcome.partialSum };
       return {
-        content: [{ type: 'text', text: output.formula }],
+        content: [{ type: 'text', text: String(output.value) }],
         structuredContent: output
       };
     }
   );
 
-  server.registerTool(
+  registerTool(
     'history-summary',
     {
-      description: 'Return a compact summary of the latest calculations in this session.',
+      description:
+        "Return a compact summary of the latest calculations in this session, or across the caller's sessions.",
       inputSchema: z.object({
-        limit: z.number().int().positive().max(25).default(5)
-      })
+        limit: z.number().int().positive().max(25).default(5),
+        scope: z
+          .enum(['session', 'shared'])
+          .default('session')
+          .describe("'shared' covers every session of the same user or workspace.")
+      }),
+      outputSchema: z.object({
+        count: z.number().int(),
+        // Shared records also name the session that produced them.
+        items: z.array(CalculationRecordSchema.extend({ sessionId: z.string().optional() }))
+      }),
+      scopes: [CALCULATOR_SCOPES.read]
     },
-    async ({ limit }): Promise<CallToolResult> => {
-      const latest = history.slice(-limit);
+    async ({ limit, scope }): Promise<CallToolResult> => {
+      const source = scope === 'shared' && historyOwner ? await sharedHistory.list(historyOwner) : history;
+      const latest = source.slice(-limit);
       const text = latest.length === 0 ? 'No calculations yet.' : latest.map(toFormula).join('\n');
 
       return {
@@ -130,23 +663,23 @@ export const createExampleMcpServer = (): ExampleMcpServer => {
 
   server.registerResource(
     'calculation-history',
-    'calc://history',
+    SESSION_HISTORY_URI,
     {
       title: 'Session Calculation History',
       description: 'All calculations performed in the current MCP session.',
       mimeType: 'application/json'
     },
-    async (): Promise<ReadResourceResult> => {
+    scopes.resource(SESSION_HISTORY_URI, [CALCULATOR_SCOPES.read], async (): Promise<ReadResourceResult> => {
       return {
         contents: [
           {
-            uri: 'calc://history',
+            uri: SESSION_HISTORY_URI,
             mimeType: 'application/json',
             text: JSON.stringify(history, null, 2)
           }
         ]
       };
-    }
+    })
   );
 
   server.registerResource(
@@ -159,64 +692,137 @@ export const createExampleMcpServer = (): ExampleMcpServer => {
           mimeType: 'application/json',
           description: toFormula(record)
         }))
-      })
+      }),
+      complete: {
+        id: (value) =>
+          completeByPrefix(
+            history.map((record) => record.id),
+            value
+          )
+      }
     }),
     {
       title: 'Single Calculation',
       description: 'Resolve one calculation from session history by ID.',
       mimeType: 'application/json'
     },
-    async (uri, { id }): Promise<ReadResourceResult> => {
-      const record = history.find((item) => item.id === id);
-      if (!record) {
+    scopes.resource(
+      'calc://history/{id}',
+      [CALCULATOR_SCOPES.read],
+      async (uri, { id }): Promise<ReadResourceResult> => {
+        const record = history.find((item) => item.id === id);
+        if (!record) {
+          return {
+            contents: [
+              {
+                uri: uri.href,
+                mimeType: 'application/json',
+                text: JSON.stringify({ error: `Calculation '${id}' not found.` }, null, 2)
+              }
+            ]
+          };
+        }
+
         return {
           contents: [
             {
               uri: uri.href,
               mimeType: 'application/json',
-              text: JSON.stringify({ error: `Calculation '${id}' not found.` }, null, 2)
+              text: JSON.stringify(record, null, 2)
             }
           ]
         };
       }
+    )
+  );
 
-      return {
-        contents: [
-          {
-            uri: uri.href,
-            mimeType: 'application/json',
-            text: JSON.stringify(record, null, 2)
+  const registerSharedHistory = (kind: HistoryOwner['kind'], variable: string): void => {
+    const uriTemplate = `calc://${SHARED_HISTORY_COLLECTIONS[kind]}/{${variable}}/history`;
+
+    server.registerResource(
+      `${kind}-calculation-history`,
+      new ResourceTemplate(uriTemplate, {
+        list: async () => ({
+          resources:
+            historyOwner?.kind === kind
+              ? [
+                  {
+                    uri: sharedHistoryUri(kind, historyOwner.id),
+                    name: `${kind} history`,
+                    mimeType: 'application/json'
+                  }
+                ]
+              : []
+        })
+      }),
+      {
+        title: `Shared ${kind} calculation history`,
+        description: `Calculations from every session of one ${kind}. Readable only by that ${kind}.`,
+        mimeType: 'application/json'
+      },
+      scopes.resource(
+        uriTemplate,
+        [CALCULATOR_SCOPES.read],
+        async (uri, variables): Promise<ReadResourceResult> => {
+          const requested = decodeURIComponent(String(variables[variable]));
+          // Other owners' histories are reported as missing rather than forbidden.
+          if (historyOwner?.kind !== kind || historyOwner.id !== requested) {
+            throw new ProtocolError(RESOURCE_NOT_FOUND_ERROR_CODE, `Resource ${uri.href} not found.`);
           }
-        ]
-      };
-    }
-  );
+
+          return {
+            contents: [
+              {
+                uri: uri.href,
+                mimeType: 'application/json',
+                text: JSON.stringify(await sharedHistory.list(historyOwner), null, 2)
+              }
+            ]
+          };
+        }
+      )
+    );
+  };
+
+  registerSharedHistory('user', 'user');
+  registerSharedHistory('workspace', 'workspace');
 
   server.registerPrompt(
     'explain-calculation',
     {
       description: 'Generate a friendly explanation prompt for a specific formula.',
       argsSchema: z.object({
-        formula: z.string().describe('For example: 8 * 4 = 32')
+        formula: completable(z.string().describe('For example: 8 * 4 = 32'), (value) =>
+          completeByPrefix(history.map(toFormula), value)
+        )
       })
     },
-    async ({ formula }): Promise<GetPromptResult> => {
-      return {
-        messages: [
-          {
-            role: 'user',
-            content: {
-              type: 'text',
-              text: `Explain this calculation for a beginner and give one related practice question: ${formula}`
+    scopes.prompt(
+      'explain-calculation',
+      [CALCULATOR_SCOPES.read],
+      async ({ formula }): Promise<GetPromptResult> => {
+        return {
+          messages: [
+            {
+              role: 'user',
+              content: {
+                type: 'text',
+                text: `Explain this calculation for a beginner and give one related practice question: ${formula}`
+              }
             }
-          }
-        ]
-      };
-    }
+          ]
+        };
+      }
+    )
   );
 
   return {
     server,
-    getHistory: () => [...history]
+    getHistory: () => [...history],
+    getState,
+    close: async () => {
+      unwatchSharedHistory?.();
+      await server.close();
+    }
   };
 };
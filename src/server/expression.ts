@@ -0,0 +1,666 @@
+import type { CallToolResult } from '@modelcontextprotocol/server';
+
+export const PRECISION_MODES = ['float', 'rational', 'decimal'] as const;
+
+export type PrecisionMode = (typeof PRECISION_MODES)[number];
+
+export const MAX_EXPRESSION_LENGTH = 1_000;
+
+const MAX_NESTING_DEPTH = 64;
+
+// Exact results are capped so a short expression such as 9^9^9 cannot allocate unbounded BigInts.
+const MAX_EXACT_BITS = 1_000n;
+const MAX_EXACT_MAGNITUDE = 1n << MAX_EXACT_BITS;
+
+export type ExpressionErrorCode = 'parse_error' | 'evaluation_error';
+
+export class ExpressionError extends Error {
+  constructor(
+    readonly code: ExpressionErrorCode,
+    message: string,
+    /** Zero-based offset into the expression. */
+    readonly position: number
+  ) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+/** The value has no exact rational form; decimal mode falls back to floating point. */
+class InexactResultError extends ExpressionError {
+  constructor(message: string, position: number) {
+    super('evaluation_error', message, position);
+    this.name = 'InexactResultError';
+  }
+}
+
+const parseError = (message: string, position: number) =>
+  new ExpressionError('parse_error', message, position);
+
+const evaluationError = (message: string, position: number) =>
+  new ExpressionError('evaluation_error', message, position);
+
+const absBigInt = (value: bigint): bigint => (value < 0n ? -value : value);
+
+const gcd = (left: bigint, right: bigint): bigint => {
+  let [a, b] = [absBigInt(left), absBigInt(right)];
+  while (b !== 0n) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+};
+
+const integerSqrt = (value: bigint): bigint => {
+  if (value < 2n) {
+    return value;
+  }
+  let estimate = value;
+  let next = (estimate + 1n) / 2n;
+  while (next < estimate) {
+    estimate = next;
+    next = (estimate + value / estimate) / 2n;
+  }
+  return estimate;
+};
+
+const DECIMAL_LITERAL = /^(-?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+class Rational {
+  private constructor(
+    readonly numerator: bigint,
+    readonly denominator: bigint
+  ) {}
+
+  static of(numerator: bigint, denominator = 1n): Rational {
+    const sign = denominator < 0n ? -1n : 1n;
+    const divisor = gcd(numerator, denominator) || 1n;
+    return new Rational((sign * numerator) / divisor, (sign * denominator) / divisor);
+  }
+
+  /** Parses a decimal literal, including the output of `String(number)`, without rounding. */
+  static parse(text: string, position: number): Rational {
+    const match = DECIMAL_LITERAL.exec(text);
+    // Every part of the pattern is optional, so '', '-' and '.' match too; none of them is a number.
+    if (!match || !/\d/.test(`${match[2] ?? ''}${match[3] ?? ''}`)) {
+      throw parseError(`'${text}' is not a number.`, position);
+    }
+    const [, sign = '', whole = '', fraction = '', exponentText = '0'] = match;
+    const exponent = Number(exponentText) - fraction.length;
+    if (Math.abs(exponent) > Number(MAX_EXACT_BITS)) {
+      throw new InexactResultError(`'${text}' is too large for exact arithmetic.`, position);
+    }
+
+    const digits = BigInt(`${sign}${whole}${fraction}` || '0');
+    const scale = 10n ** BigInt(Math.abs(exponent));
+    return exponent >= 0 ? Rational.of(digits * scale) : Rational.of(digits, scale);
+  }
+
+  get isZero(): boolean {
+    return this.numerator === 0n;
+  }
+
+  get isInteger(): boolean {
+    return this.denominator === 1n;
+  }
+
+  get isTooLarge(): boolean {
+    return absBigInt(this.numerator) >= MAX_EXACT_MAGNITUDE || this.denominator >= MAX_EXACT_MAGNITUDE;
+  }
+
+  add(other: Rational): Rational {
+    return Rational.of(
+      this.numerator * other.denominator + other.numerator * this.denominator,
+      this.denominator * other.denominator
+    );
+  }
+
+  subtract(other: Rational): Rational {
+    return this.add(other.negate());
+  }
+
+  multiply(other: Rational): Rational {
+    return Rational.of(this.numerator * other.numerator, this.denominator * other.denominator);
+  }
+
+  divide(other: Rational): Rational {
+    return Rational.of(this.numerator * other.denominator, this.denominator * other.numerator);
+  }
+
+  /** Truncating remainder with the sign of the dividend, like JavaScript's `%`. */
+  remainder(other: Rational): Rational {
+    const quotient = (this.numerator * other.denominator) / (this.denominator * other.numerator);
+    return this.subtract(other.multiply(Rational.of(quotient)));
+  }
+
+  power(exponent: bigint): Rational {
+    const magnitude = absBigInt(exponent);
+    const base = exponent < 0n ? Rational.of(this.denominator, this.numerator) : this;
+    return Rational.of(base.numerator ** magnitude, base.denominator ** magnitude);
+  }
+
+  negate(): Rational {
+    return Rational.of(-this.numerator, this.denominator);
+  }
+
+  abs(): Rational {
+    return Rational.of(absBigInt(this.numerator), this.denominator);
+  }
+
+  floor(): Rational {
+    const quotient = this.numerator / this.denominator;
+    return Rational.of(this.numerator < 0n && !this.isInteger ? quotient - 1n : quotient);
+  }
+
+  ceil(): Rational {
+    return this.negate().floor().negate();
+  }
+
+  /** Rounds half up, like `Math.round`. */
+  round(): Rational {
+    return this.add(Rational.of(1n, 2n)).floor();
+  }
+
+  sqrt(): Rational | undefined {
+    if (this.numerator < 0n) {
+      return undefined;
+    }
+    const [numerator, denominator] = [integerSqrt(this.numerator), integerSqrt(this.denominator)];
+    const exact = numerator * numerator === this.numerator && denominator * denominator === this.denominator;
+    return exact ? Rational.of(numerator, denominator) : undefined;
+  }
+
+  compare(other: Rational): number {
+    const difference = this.numerator * other.denominator - other.numerator * this.denominator;
+    return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+  }
+
+  /** Rounds half away from zero to `decimals` places. */
+  toFixed(decimals: number): string {
+    const scaled = absBigInt(this.numerator) * 10n ** BigInt(decimals);
+    const rounded = (2n * scaled + this.denominator) / (2n * this.denominator);
+    const digits = rounded.toString().padStart(decimals + 1, '0');
+    const sign = this.numerator < 0n && rounded !== 0n ? '-' : '';
+    const whole = digits.slice(0, digits.length - decimals);
+    return decimals === 0 ? `${sign}${whole}` : `${sign}${whole}.${digits.slice(-decimals)}`;
+  }
+
+  toNumber(): number {
+    const value = Number(this.numerator) / Number(this.denominator);
+    return Number.isNaN(value) ? Number(this.toFixed(20)) : value;
+  }
+
+  toString(): string {
+    return this.isInteger ? this.numerator.toString() : `${this.numerator}/${this.denominator}`;
+  }
+}
+
+interface FunctionSpec {
+  arity: [min: number, max: number];
+  float: (...args: number[]) => number;
+  /** Returns `undefined` when the result has no exact rational form. */
+  exact?: (...args: Rational[]) => Rational | undefined;
+}
+
+const unary = (float: (value: number) => number, exact?: (value: Rational) => Rational | undefined) => ({
+  arity: [1, 1] as [number, number],
+  float,
+  exact
+});
+
+const FUNCTIONS = new Map<string, FunctionSpec>([
+  ['abs', unary(Math.abs, (value) => value.abs())],
+  ['floor', unary(Math.floor, (value) => value.floor())],
+  ['ceil', unary(Math.ceil, (value) => value.ceil())],
+  ['round', unary(Math.round, (value) => value.round())],
+  ['sqrt', unary(Math.sqrt, (value) => value.sqrt())],
+  ['cbrt', unary(Math.cbrt)],
+  ['exp', unary(Math.exp)],
+  ['ln', unary(Math.log)],
+  ['log2', unary(Math.log2)],
+  ['log10', unary(Math.log10)],
+  ['sin', unary(Math.sin)],
+  ['cos', unary(Math.cos)],
+  ['tan', unary(Math.tan)],
+  ['asin', unary(Math.asin)],
+  ['acos', unary(Math.acos)],
+  ['atan', unary(Math.atan)],
+  [
+    'log',
+    {
+      arity: [1, 2],
+      float: (value, base) => (base === undefined ? Math.log10(value) : Math.log(value) / Math.log(base))
+    }
+  ],
+  [
+    'min',
+    {
+      arity: [1, Infinity],
+      float: Math.min,
+      exact: (...values) => values.reduce((left, right) => (right.compare(left) < 0 ? right : left))
+    }
+  ],
+  [
+    'max',
+    {
+      arity: [1, Infinity],
+      float: Math.max,
+      exact: (...values) => values.reduce((left, right) => (right.compare(left) > 0 ? right : left))
+    }
+  ]
+]);
+
+const CONSTANTS = new Map<string, number>([
+  ['pi', Math.PI],
+  ['tau', 2 * Math.PI],
+  ['e', Math.E]
+]);
+
+export const EXPRESSION_FUNCTIONS = [...FUNCTIONS.keys()];
+
+export const EXPRESSION_CONSTANTS = [...CONSTANTS.keys()];
+
+type TokenType = 'number' | 'identifier' | 'reference' | 'operator' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+}
+
+const TOKEN_PATTERNS: Array<[TokenType | 'whitespace', RegExp]> = [
+  ['whitespace', /\s+/y],
+  ['number', /(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/y],
+  ['identifier', /[A-Za-z_][A-Za-z0-9_]*/y],
+  ['reference', /\$[A-Za-z0-9_]+/y],
+  ['operator', /\*\*|[-+*/%^(),]/y]
+];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const match = TOKEN_PATTERNS.map(([type, pattern]) => {
+      pattern.lastIndex = position;
+      return { type, text: pattern.exec(source)?.[0] };
+    }).find(({ text }) => text !== undefined);
+
+    if (!match?.text) {
+      throw parseError(`Unexpected character '${source[position]}'.`, position);
+    }
+    if (match.type !== 'whitespace') {
+      tokens.push({ type: match.type, text: match.text === '**' ? '^' : match.text, position });
+    }
+    position += match.text.length;
+  }
+
+  tokens.push({ type: 'end', text: '', position: source.length });
+  return tokens;
+};
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '^';
+
+type ExpressionNode =
+  | { type: 'number'; text: string; position: number }
+  | { type: 'constant'; name: string; position: number }
+  | { type: 'reference'; id: string; position: number }
+  | { type: 'negate'; operand: ExpressionNode; position: number }
+  | {
+      type: 'binary';
+      operator: BinaryOperator;
+      left: ExpressionNode;
+      right: ExpressionNode;
+      position: number;
+    }
+  | { type: 'call'; name: string; args: ExpressionNode[]; position: number };
+
+const describeToken = (token: Token): string =>
+  token.type === 'end' ? 'end of expression' : `'${token.text}'`;
+
+const describeArity = ([min, max]: [number, number]): string =>
+  min === max
+    ? `${min} argument${min === 1 ? '' : 's'}`
+    : max === Infinity
+      ? `at least ${min}`
+      : `${min} to ${max}`;
+
+/**
+ * Recursive descent over the usual precedence levels: `+ -`, then `* / %`, then unary
+ * minus, then right-associative `^`. Unary minus binds looser than `^`, so `-2^2` is -4.
+ */
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.additive();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw parseError(`Unexpected ${describeToken(token)}.`, token.position);
+    }
+    return node;
+  }
+
+  private additive(): ExpressionNode {
+    let node = this.multiplicative();
+    for (let token = this.peek(); this.isOperator(token, '+', '-'); token = this.peek()) {
+      this.index += 1;
+      node = this.binary(token, node, this.multiplicative());
+    }
+    return node;
+  }
+
+  private multiplicative(): ExpressionNode {
+    let node = this.unary();
+    for (let token = this.peek(); this.isOperator(token, '*', '/', '%'); token = this.peek()) {
+      this.index += 1;
+      node = this.binary(token, node, this.unary());
+    }
+    return node;
+  }
+
+  // Every level of nesting passes through here, so the depth limit bounds recursion.
+  private unary(): ExpressionNode {
+    const token = this.peek();
+    if (++this.depth > MAX_NESTING_DEPTH) {
+      throw parseError(`Expression is nested more than ${MAX_NESTING_DEPTH} levels deep.`, token.position);
+    }
+
+    try {
+      if (this.isOperator(token, '-', '+')) {
+        this.index += 1;
+        const operand = this.unary();
+        return token.text === '-' ? { type: 'negate', operand, position: token.position } : operand;
+      }
+      return this.power();
+    } finally {
+      this.depth -= 1;
+    }
+  }
+
+  private power(): ExpressionNode {
+    const base = this.primary();
+    const token = this.peek();
+    if (!this.isOperator(token, '^')) {
+      return base;
+    }
+    this.index += 1;
+    return this.binary(token, base, this.unary());
+  }
+
+  private primary(): ExpressionNode {
+    const token = this.next();
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', text: token.text, position: token.position };
+      case 'reference':
+        return { type: 'reference', id: token.text.slice(1), position: token.position };
+      case 'identifier':
+        return this.isOperator(this.peek(), '(') ? this.call(token) : this.constant(token);
+      case 'operator':
+        if (token.text === '(') {
+          const node = this.additive();
+          this.expect(')');
+          return node;
+        }
+        break;
+      case 'end':
+        break;
+    }
+    throw parseError(`Unexpected ${describeToken(token)}.`, token.position);
+  }
+
+  private call(name: Token): ExpressionNode {
+    const spec = FUNCTIONS.get(name.text);
+    if (!spec) {
+      throw parseError(`Unknown function '${name.text}'.`, name.position);
+    }
+
+    this.expect('(');
+    const args: ExpressionNode[] = [];
+    if (!this.isOperator(this.peek(), ')')) {
+      do {
+        args.push(this.additive());
+      } while (this.isOperator(this.peek(), ',') && this.next());
+    }
+    this.expect(')');
+
+    const [min, max] = spec.arity;
+    if (args.length < min || args.length > max) {
+      throw parseError(
+        `${name.text} expects ${describeArity(spec.arity)}, got ${args.length}.`,
+        name.position
+      );
+    }
+    return { type: 'call', name: name.text, args, position: name.position };
+  }
+
+  private constant(name: Token): ExpressionNode {
+    if (!CONSTANTS.has(name.text)) {
+      throw parseError(`Unknown identifier '${name.text}'.`, name.position);
+    }
+    return { type: 'constant', name: name.text, position: name.position };
+  }
+
+  private binary(operator: Token, left: ExpressionNode, right: ExpressionNode): ExpressionNode {
+    return {
+      type: 'binary',
+      operator: operator.text as BinaryOperator,
+      left,
+      right,
+      position: operator.position
+    };
+  }
+
+  private expect(text: string): void {
+    const token = this.next();
+    if (!this.isOperator(token, text)) {
+      throw parseError(`Expected '${text}' but found ${describeToken(token)}.`, token.position);
+    }
+  }
+
+  private isOperator(token: Token, ...texts: string[]): boolean {
+    return token.type === 'operator' && texts.includes(token.text);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index] ?? this.tokens[this.tokens.length - 1]!;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index = Math.min(this.index + 1, this.tokens.length - 1);
+    return token;
+  }
+}
+
+/** Looks up `$id` references, such as `$calc_3`, to earlier results. */
+export type ReferenceResolver = (id: string) => number | undefined;
+
+const resolve = (node: { id: string; position: number }, resolveReference: ReferenceResolver): number => {
+  const value = resolveReference(node.id);
+  if (value === undefined) {
+    throw evaluationError(`Unknown reference '$${node.id}'.`, node.position);
+  }
+  return value;
+};
+
+const DIVISION_BY_ZERO = 'Division by zero is not allowed.';
+
+const evaluateFloat = (node: ExpressionNode, resolveReference: ReferenceResolver): number => {
+  const evaluate = (child: ExpressionNode) => evaluateFloat(child, resolveReference);
+  let value: number;
+
+  switch (node.type) {
+    case 'number':
+      value = Number(node.text);
+      break;
+    case 'constant':
+      value = CONSTANTS.get(node.name)!;
+      break;
+    case 'reference':
+      value = resolve(node, resolveReference);
+      break;
+    case 'negate':
+      value = -evaluate(node.operand);
+      break;
+    case 'call':
+      value = FUNCTIONS.get(node.name)!.float(...node.args.map(evaluate));
+      break;
+    case 'binary': {
+      const [left, right] = [evaluate(node.left), evaluate(node.right)];
+      if ((node.operator === '/' || node.operator === '%') && right === 0) {
+        throw evaluationError(DIVISION_BY_ZERO, node.position);
+      }
+      value = {
+        '+': () => left + right,
+        '-': () => left - right,
+        '*': () => left * right,
+        '/': () => left / right,
+        '%': () => left % right,
+        '^': () => left ** right
+      }[node.operator]();
+      break;
+    }
+  }
+
+  if (!Number.isFinite(value)) {
+    throw evaluationError('Result is not a finite number.', node.position);
+  }
+  return value;
+};
+
+const evaluateExact = (node: ExpressionNode, resolveReference: ReferenceResolver): Rational => {
+  const evaluate = (child: ExpressionNode) => evaluateExact(child, resolveReference);
+  let value: Rational | undefined;
+
+  switch (node.type) {
+    case 'number':
+      value = Rational.parse(node.text, node.position);
+      break;
+    case 'constant':
+      throw new InexactResultError(`'${node.name}' has no exact rational value.`, node.position);
+    case 'reference':
+      value = Rational.parse(String(resolve(node, resolveReference)), node.position);
+      break;
+    case 'negate':
+      value = evaluate(node.operand).negate();
+      break;
+    case 'call':
+      value = FUNCTIONS.get(node.name)!.exact?.(...node.args.map(evaluate));
+      if (!value) {
+        throw new InexactResultError(`${node.name} has no exact rational result here.`, node.position);
+      }
+      break;
+    case 'binary': {
+      const [left, right] = [evaluate(node.left), evaluate(node.right)];
+      value = applyExact(node.operator, left, right, node.position);
+      break;
+    }
+  }
+
+  if (value.isTooLarge) {
+    throw new InexactResultError('Exact result is too large; use float mode.', node.position);
+  }
+  return value;
+};
+
+const applyExact = (
+  operator: BinaryOperator,
+  left: Rational,
+  right: Rational,
+  position: number
+): Rational => {
+  switch (operator) {
+    case '+':
+      return left.add(right);
+    case '-':
+      return left.subtract(right);
+    case '*':
+      return left.multiply(right);
+    case '/':
+    case '%':
+      if (right.isZero) {
+        throw evaluationError(DIVISION_BY_ZERO, position);
+      }
+      return operator === '/' ? left.divide(right) : left.remainder(right);
+    case '^': {
+      if (!right.isInteger) {
+        throw new InexactResultError('Only integer exponents have exact rational results.', position);
+      }
+      if (left.isZero && right.numerator < 0n) {
+        throw evaluationError(DIVISION_BY_ZERO, position);
+      }
+      // Any base other than 0, 1 and -1 overflows the cap long before this exponent.
+      const trivialBase = left.isZero || (left.isInteger && absBigInt(left.numerator) === 1n);
+      if (!trivialBase && absBigInt(right.numerator) > MAX_EXACT_BITS) {
+        throw new InexactResultError('Exact result is too large; use float mode.', position);
+      }
+      return left.power(right.numerator);
+    }
+  }
+};
+
+export interface EvaluateExpressionOptions {
+  mode: PrecisionMode;
+  /** Places after the decimal point in `decimal` mode. */
+  decimals?: number;
+  resolveReference?: ReferenceResolver;
+}
+
+export interface ExpressionResult {
+  mode: PrecisionMode;
+  /** The value formatted for the mode: `7/3` in rational mode, `2.33` in decimal mode with 2 places. */
+  result: string;
+  /** Closest floating-point value. */
+  value: number;
+}
+
+/** Parses and evaluates `source` without `eval`. Throws `ExpressionError` with the offending position. */
+export const evaluateExpression = (
+  source: string,
+  { mode, decimals = 2, resolveReference = () => undefined }: EvaluateExpressionOptions
+): ExpressionResult => {
+  const tree = new Parser(tokenize(source)).parse();
+
+  if (mode === 'float') {
+    const value = evaluateFloat(tree, resolveReference);
+    return { mode, result: String(value), value };
+  }
+
+  if (mode === 'rational') {
+    const value = evaluateExact(tree, resolveReference);
+    return { mode, result: value.toString(), value: value.toNumber() };
+  }
+
+  // Exact arithmetic rounds 1.005 to 1.01 where floating point gives 1.00; irrational
+  // results such as sqrt(2) fall back to floating point.
+  let result: string;
+  try {
+    result = evaluateExact(tree, resolveReference).toFixed(decimals);
+  } catch (error) {
+    if (!(error instanceof InexactResultError)) {
+      throw error;
+    }
+    result = evaluateFloat(tree, resolveReference).toFixed(decimals);
+  }
+  return { mode, result, value: Number(result) };
+};
+
+export const expressionErrorResult = (error: ExpressionError, source: string): CallToolResult => {
+  const { code, message, position } = error;
+  const label = code === 'parse_error' ? 'Parse error' : 'Evaluation error';
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `${label} at position ${position}: ${message}\n${source}\n${' '.repeat(position)}^`
+      }
+    ],
+    structuredContent: { error: { code, message, position } },
+    isError: true
+  };
+};
@@ -0,0 +1,160 @@
+import { appendFile, mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { JSONRPCMessage } from '@modelcontextprotocol/server';
+
+import { type EventStoreOptions, InMemoryEventStore, type StoredEvent } from './in-memory-event-store.js';
+import { Logger } from './logger.js';
+
+export interface FileEventStoreOptions extends EventStoreOptions {
+  directory: string;
+  /** Rewrite a stream's log once it holds this many more lines than live events. */
+  compactAfterDeadLines?: number;
+  logger?: Logger;
+}
+
+const LOG_EXTENSION = '.jsonl';
+
+const fileNameForStream = (streamId: string): string => `${encodeURIComponent(streamId)}${LOG_EXTENSION}`;
+
+const serializeEvent = (event: StoredEvent): string => `${JSON.stringify(event)}\n`;
+
+const parseLogLines = (content: string): StoredEvent[] => {
+  const events: StoredEvent[] = [];
+  for (const line of content.split('\n')) {
+    if (line.trim().length === 0) {
+      continue;
+    }
+
+    try {
+      events.push(JSON.parse(line) as StoredEvent);
+    } catch {
+      // A torn final line from a crash mid-append; everything before it is intact.
+    }
+  }
+  return events.sort((a, b) => a.seq - b.seq);
+};
+
+export class FileEventStore extends InMemoryEventStore {
+  private readonly directory: string;
+  private readonly compactAfterDeadLines: number;
+  private readonly logger: Logger;
+  private readonly lineCounts = new Map<string, number>();
+  private writes: Promise<void> = Promise.resolve();
+  private restoring = false;
+
+  private constructor(options: FileEventStoreOptions) {
+    super(options);
+    this.directory = options.directory;
+    this.compactAfterDeadLines = options.compactAfterDeadLines ?? 500;
+    this.logger = options.logger ?? new Logger();
+  }
+
+  static async open(options: FileEventStoreOptions): Promise<FileEventStore> {
+    const store = new FileEventStore(options);
+    await mkdir(store.directory, { recursive: true });
+    await store.restore();
+    return store;
+  }
+
+  override async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const eventId = await super.storeEvent(streamId, message);
+    await this.writes;
+    return eventId;
+  }
+
+  override async clear(): Promise<void> {
+    await super.clear();
+    this.lineCounts.clear();
+    this.enqueue(() => rm(this.directory, { recursive: true, force: true }));
+    await this.writes;
+  }
+
+  async flush(): Promise<void> {
+    await this.writes;
+  }
+
+  protected override appendToRing(streamId: string, event: StoredEvent): void {
+    super.appendToRing(streamId, event);
+    if (this.restoring) {
+      return;
+    }
+
+    const lineCount = (this.lineCounts.get(streamId) ?? 0) + 1;
+    this.lineCounts.set(streamId, lineCount);
+    this.enqueue(() => appendFile(this.pathForStream(streamId), serializeEvent(event)));
+
+    const live = this.streams.get(streamId)?.size ?? 0;
+    if (lineCount - live >= this.compactAfterDeadLines) {
+      this.compact(streamId);
+    }
+  }
+
+  protected override pruneExpired(): void {
+    super.pruneExpired();
+    if (this.restoring) {
+      return;
+    }
+
+    for (const streamId of this.lineCounts.keys()) {
+      if (!this.streams.has(streamId)) {
+        this.lineCounts.delete(streamId);
+        this.enqueue(() => rm(this.pathForStream(streamId), { force: true }));
+      }
+    }
+  }
+
+  private compact(streamId: string): void {
+    const live = this.streamEvents(streamId);
+    this.lineCounts.set(streamId, live.length);
+
+    const target = this.pathForStream(streamId);
+    const temporary = `${target}.compact`;
+    this.enqueue(async () => {
+      await writeFile(temporary, live.map(serializeEvent).join(''));
+      await rename(temporary, target);
+    });
+  }
+
+  private async restore(): Promise<void> {
+    const entries = await readdir(this.directory);
+    this.restoring = true;
+
+    try {
+      for (const entry of entries) {
+        if (!entry.endsWith(LOG_EXTENSION)) {
+          continue;
+        }
+
+        const streamId = decodeURIComponent(entry.slice(0, -LOG_EXTENSION.length));
+        const events = parseLogLines(await readFile(path.join(this.directory, entry), 'utf8'));
+        for (const event of events) {
+          this.appendToRing(streamId, event);
+          this.lastSeq = Math.max(this.lastSeq, event.seq);
+        }
+        this.lineCounts.set(streamId, events.length);
+
+        // Compaction drops evicted lines, so without a newer eviction seen while replaying the
+        // log, treat everything before the first logged event as evicted.
+        const oldest = this.streams.get(streamId)?.oldest();
+        if (oldest && !this.lastEvictedSeqs.has(streamId)) {
+          this.lastEvictedSeqs.set(streamId, oldest.seq - 1);
+        }
+      }
+
+      this.pruneExpired();
+    } finally {
+      this.restoring = false;
+    }
+  }
+
+  private pathForStream(streamId: string): string {
+    return path.join(this.directory, fileNameForStream(streamId));
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.writes = this.writes.then(task).catch((error: unknown) => {
+      this.logger.error('event log write failed', { directory: this.directory, error });
+    });
+  }
+}
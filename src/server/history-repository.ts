@@ -0,0 +1,131 @@
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { CalculationRecord } from './create-mcp-server.js';
+
+/**
+ * Whose shared history a session writes to: its authenticated user, or a workspace it named. With
+ * authentication on, a workspace belongs to the principal that named it, so two users naming the
+ * same workspace get separate histories.
+ */
+export type HistoryOwner =
+  | { kind: 'user'; id: string }
+  | { kind: 'workspace'; id: string; principal?: string };
+
+export interface SharedCalculationRecord extends CalculationRecord {
+  /** Session that performed the calculation; `id` is only unique within it. */
+  sessionId: string;
+}
+
+export type HistoryListener = (record: SharedCalculationRecord) => void;
+
+export interface HistoryRepository {
+  append(owner: HistoryOwner, record: SharedCalculationRecord): Promise<void>;
+  list(owner: HistoryOwner): Promise<SharedCalculationRecord[]>;
+  /** Calls `listener` after each append to `owner`'s history, from any session. Returns an unwatch function. */
+  watch(owner: HistoryOwner, listener: HistoryListener): () => void;
+}
+
+// Workspace IDs cannot contain `/`, so a namespaced key never matches an unnamespaced one.
+export const historyOwnerKey = (owner: HistoryOwner): string =>
+  owner.kind === 'workspace' && owner.principal !== undefined
+    ? `workspace:${owner.principal}/${owner.id}`
+    : `${owner.kind}:${owner.id}`;
+
+class HistoryWatchers {
+  private readonly listeners = new Map<string, Set<HistoryListener>>();
+
+  add(owner: HistoryOwner, listener: HistoryListener): () => void {
+    const key = historyOwnerKey(owner);
+    const listeners = this.listeners.get(key) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(key, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(key);
+      }
+    };
+  }
+
+  emit(owner: HistoryOwner, record: SharedCalculationRecord): void {
+    for (const listener of this.listeners.get(historyOwnerKey(owner)) ?? []) {
+      listener(record);
+    }
+  }
+}
+
+export class InMemoryHistoryRepository implements HistoryRepository {
+  private readonly histories = new Map<string, SharedCalculationRecord[]>();
+  private readonly watchers = new HistoryWatchers();
+
+  async append(owner: HistoryOwner, record: SharedCalculationRecord): Promise<void> {
+    const key = historyOwnerKey(owner);
+    this.histories.set(key, [...(this.histories.get(key) ?? []), record]);
+    this.watchers.emit(owner, record);
+  }
+
+  async list(owner: HistoryOwner): Promise<SharedCalculationRecord[]> {
+    return [...(this.histories.get(historyOwnerKey(owner)) ?? [])];
+  }
+
+  watch(owner: HistoryOwner, listener: HistoryListener): () => void {
+    return this.watchers.add(owner, listener);
+  }
+}
+
+/**
+ * Appends one JSON line per calculation to a file per owner. Nothing is cached, so processes
+ * sharing the directory, such as cluster workers, see each other's appends on the next read.
+ */
+export class FileHistoryRepository implements HistoryRepository {
+  // Appends to one owner are serialized so listeners see them in file order.
+  private readonly writes = new Map<string, Promise<void>>();
+  private readonly watchers = new HistoryWatchers();
+
+  constructor(private readonly directory: string) {}
+
+  async append(owner: HistoryOwner, record: SharedCalculationRecord): Promise<void> {
+    const key = historyOwnerKey(owner);
+    const write = (this.writes.get(key) ?? Promise.resolve()).then(async () => {
+      await mkdir(this.directory, { recursive: true });
+      // A single write to a file opened for appending is never interleaved with another process's.
+      await appendFile(this.pathFor(key), `${JSON.stringify(record)}\n`);
+      this.watchers.emit(owner, record);
+    });
+
+    this.writes.set(
+      key,
+      write.catch(() => undefined)
+    );
+    return write;
+  }
+
+  async list(owner: HistoryOwner): Promise<SharedCalculationRecord[]> {
+    let text = '';
+    try {
+      text = await readFile(this.pathFor(historyOwnerKey(owner)), 'utf8');
+    } catch {
+      // No file yet: the owner has no history.
+    }
+
+    // A line still being written by another process is skipped until it is complete.
+    return text.split('\n').flatMap((line) => {
+      try {
+        return line ? [JSON.parse(line) as SharedCalculationRecord] : [];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  watch(owner: HistoryOwner, listener: HistoryListener): () => void {
+    return this.watchers.add(owner, listener);
+  }
+
+  // Owner IDs come from tokens and headers, so they are encoded rather than trusted as file names.
+  private pathFor(key: string): string {
+    return path.join(this.directory, `${Buffer.from(key).toString('base64url')}.jsonl`);
+  }
+}
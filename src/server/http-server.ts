@@ -1,19 +1,99 @@
-import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import {
+  createServer,
+  type IncomingHttpHeaders,
+  type IncomingMessage,
+  request,
+  type ServerResponse
+} from 'node:http';
 
-import { isInitializeRequest } from '@modelcontextprotocol/server';
+import {
+  type AuthInfo,
+  isInitializeRequest,
+  isJSONRPCRequest,
+  type JSONRPCMessage,
+  JSONRPCMessageSchema
+} from '@modelcontextprotocol/server';
 
-import type { SessionRegistry } from './session-registry.js';
+import type { AdminRequestHandler } from './admin-api.js';
+import { type BearerAuthenticator, getPrincipal, PROTECTED_RESOURCE_METADATA_PATH } from './auth.js';
+import {
+  applyCorsHeaders,
+  checkRequestOrigin,
+  type OriginPolicyConfig,
+  sendPreflight
+} from './origin-policy.js';
+import { LEGACY_MESSAGES_PATH, LEGACY_SSE_PATH } from './legacy-sse-transport.js';
+import { type LogFields, Logger } from './logger.js';
+import { METRICS_CONTENT_TYPE, type ServerMetrics } from './metrics.js';
+import type { RateLimitDecision, RateLimiter } from './rate-limiter.js';
+import type { SessionDirectory, SessionOwner } from './session-directory.js';
+import {
+  ServerDrainingError,
+  SessionLimitError,
+  type SessionRegistry,
+  type SessionState,
+  type SessionTransportType
+} from './session-registry.js';
+
+export interface McpHttpServerOptions {
+  /** When set, `/mcp` requires a bearer token and sessions are bound to the principal that created them. */
+  auth?: BearerAuthenticator;
+  /** Host and Origin allowlists for `/mcp`; without one, neither header is checked. */
+  originPolicy?: OriginPolicyConfig;
+  /** Largest accepted POST body in bytes. Defaults to 1 MiB. */
+  maxBodyBytes?: number;
+  /** Token buckets for initialize requests per address and for requests per session and principal. */
+  rateLimiter?: RateLimiter;
+  logger?: Logger;
+  /** When set, `/metrics` serves them in Prometheus text format. */
+  metrics?: ServerMetrics;
+  /** Mounts the admin routes on this server; leave unset when they listen on their own port. */
+  admin?: AdminRequestHandler;
+  /** Serves the 2024-11-05 HTTP+SSE endpoints, `GET /sse` and `POST /messages`, next to `/mcp`. */
+  legacySse?: boolean;
+  /**
+   * Answers every `POST /mcp` with a fresh server and transport and no session ID, so any
+   * instance can serve any request. `GET` and `DELETE` get `405`.
+   */
+  stateless?: boolean;
+  /**
+   * In cluster mode, where requests for sessions held by other workers are forwarded. Leave it
+   * unset on the loopback listener that receives forwarded requests, so nothing is forwarded twice.
+   */
+  sessionDirectory?: SessionDirectory;
+}
+
+type McpRequestContext = Pick<McpHttpServerOptions, 'rateLimiter' | 'metrics' | 'stateless'> & {
+  maxBodyBytes: number;
+  /** Filled in while handling the request and written with the access log line. */
+  logFields: LogFields;
+};
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+/** Sent with `initialize` to share calculation history across sessions under a workspace ID. */
+const WORKSPACE_HEADER = 'x-workspace-id';
+
+const WORKSPACE_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+const LEGACY_PATHS = new Set([LEGACY_SSE_PATH, LEGACY_MESSAGES_PATH]);
+
+const HOP_BY_HOP_HEADERS = new Set(['connection', 'keep-alive', 'transfer-encoding']);
+
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
 
 interface JsonRpcErrorBody {
   jsonrpc: '2.0';
   error: {
     code: number;
     message: string;
+    data?: unknown;
   };
   id: null;
 }
 
-const sendJson = (res: ServerResponse, statusCode: number, body: unknown): void => {
+export const sendJson = (res: ServerResponse, statusCode: number, body: unknown): void => {
   if (res.headersSent) {
     return;
   }
@@ -23,71 +103,344 @@ const sendJson = (res: ServerResponse, statusCode: number, body: unknown): void
   res.end(JSON.stringify(body));
 };
 
-const sendJsonRpcError = (res: ServerResponse, statusCode: number, code: number, message: string): void => {
+const sendJsonRpcError = (
+  res: ServerResponse,
+  statusCode: number,
+  code: number,
+  message: string,
+  data?: unknown
+): void => {
   const body: JsonRpcErrorBody = {
     jsonrpc: '2.0',
-    error: { code, message },
+    error: data === undefined ? { code, message } : { code, message, data },
     id: null
   };
 
   sendJson(res, statusCode, body);
 };
 
-const getSessionId = (req: IncomingMessage): string | undefined => {
-  const raw = req.headers['mcp-session-id'];
+export const getHeader = (req: IncomingMessage, name: string): string | undefined => {
+  const raw = req.headers[name];
   return Array.isArray(raw) ? raw[0] : raw;
 };
 
-const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+const getSessionId = (req: IncomingMessage): string | undefined => getHeader(req, 'mcp-session-id');
+
+const describeRpcBody = (body: unknown): LogFields => {
+  if (Array.isArray(body)) {
+    return { rpcMethod: 'batch', batchSize: body.length };
+  }
+
+  const { method, id } = (body ?? {}) as { method?: unknown; id?: unknown };
+  return { rpcMethod: method, rpcId: id };
+};
+
+const sendRateLimited = (
+  res: ServerResponse,
+  decision: Extract<RateLimitDecision, { allowed: false }>
+): void => {
+  const { scope, retryAfterMs } = decision;
+  res.setHeader('retry-after', String(Math.max(1, Math.ceil(retryAfterMs / 1000))));
+  sendJsonRpcError(res, 429, -32_000, `Rate limit exceeded for ${scope}.`, { scope, retryAfterMs });
+};
+
+// Long enough for a load balancer to notice the failing readiness probe and route elsewhere.
+const DRAINING_RETRY_AFTER_SECONDS = 5;
+
+const sendDraining = (res: ServerResponse): void => {
+  res.setHeader('retry-after', String(DRAINING_RETRY_AFTER_SECONDS));
+  sendJsonRpcError(res, 503, -32_000, new ServerDrainingError().message, { reason: 'draining' });
+};
+
+export class RequestRejectedError extends Error {
+  constructor(
+    readonly statusCode: number,
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RequestRejectedError';
+  }
+}
+
+const assertPostHeaders = (req: IncomingMessage): void => {
+  const accept = getHeader(req, 'accept') ?? '';
+  if (!accept.includes('application/json') || !accept.includes('text/event-stream')) {
+    throw new RequestRejectedError(
+      406,
+      -32_000,
+      'Not Acceptable: client must accept both application/json and text/event-stream.'
+    );
+  }
+
+  const mediaType = getHeader(req, 'content-type')?.split(';')[0]?.trim().toLowerCase();
+  if (mediaType !== 'application/json') {
+    throw new RequestRejectedError(
+      415,
+      -32_000,
+      'Unsupported Media Type: content-type must be application/json.'
+    );
+  }
+};
+
+export const readJsonBody = async (req: IncomingMessage, maxBytes: number): Promise<unknown> => {
+  const tooLarge = () =>
+    new RequestRejectedError(413, -32_600, `Request body exceeds the ${maxBytes} byte limit.`);
+
+  const declaredLength = Number(getHeader(req, 'content-length'));
+  if (declaredLength > maxBytes) {
+    throw tooLarge();
+  }
+
   const chunks: Buffer[] = [];
+  let receivedBytes = 0;
 
   for await (const chunk of req) {
-    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    receivedBytes += buffer.length;
+    // Keep draining so the response can still be written, but stop buffering.
+    if (receivedBytes <= maxBytes) {
+      chunks.push(buffer);
+    }
+  }
+
+  if (receivedBytes > maxBytes) {
+    throw tooLarge();
   }
 
   const text = Buffer.concat(chunks).toString('utf8').trim();
   if (text.length === 0) {
-    return {};
+    throw new RequestRejectedError(400, -32_600, 'Request body is empty.');
   }
 
-  return JSON.parse(text);
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new RequestRejectedError(400, -32_700, 'Invalid JSON body');
+  }
 };
 
-const handleMcpRequest = async (
+const getWorkspace = (
+  req: IncomingMessage
+): { ok: true; workspace: string | undefined } | { ok: false; message: string } => {
+  const workspace = getHeader(req, WORKSPACE_HEADER);
+  return workspace === undefined || WORKSPACE_ID_PATTERN.test(workspace)
+    ? { ok: true, workspace }
+    : { ok: false, message: `${WORKSPACE_HEADER} must match ${WORKSPACE_ID_PATTERN.source}.` };
+};
+
+/** Answers the errors a new session can fail with; returns false for anything else. */
+const sendSessionRejected = (res: ServerResponse, error: unknown): boolean => {
+  if (error instanceof SessionLimitError) {
+    sendJsonRpcError(res, 503, -32_000, error.message);
+    return true;
+  }
+  if (error instanceof ServerDrainingError) {
+    sendDraining(res);
+    return true;
+  }
+  return false;
+};
+
+const resolveSession = async <T extends SessionTransportType>(
+  req: AuthenticatedRequest,
+  res: ServerResponse,
+  registry: SessionRegistry,
+  sessionId: string,
+  transportType: T
+): Promise<Extract<SessionState, { transportType: T }> | undefined> => {
+  const state = await registry.getOrRestore(sessionId);
+  const principal = req.auth ? getPrincipal(req.auth) : undefined;
+
+  // A persisted session can still be restored by the next instance, so do not report it missing.
+  if (!state && registry.isDraining()) {
+    sendDraining(res);
+    return undefined;
+  }
+
+  // A session owned by someone else, or on the other transport, is reported exactly like a missing one.
+  if (!state || state.principal !== principal || state.transportType !== transportType) {
+    sendJsonRpcError(res, 404, -32_000, `Session '${sessionId}' was not found.`);
+    return undefined;
+  }
+
+  registry.touch(sessionId);
+  return state as Extract<SessionState, { transportType: T }>;
+};
+
+/** Every message is handled as if by a new session; the client repeats its workspace header on each POST. */
+const handleStatelessPost = async (
+  req: AuthenticatedRequest,
+  res: ServerResponse,
+  registry: SessionRegistry,
+  parsedBody: unknown,
+  rateLimiter: RateLimiter | undefined
+): Promise<void> => {
+  const principal = req.auth ? getPrincipal(req.auth) : undefined;
+
+  const workspace = getWorkspace(req);
+  if (!workspace.ok) {
+    sendJsonRpcError(res, 400, -32_600, workspace.message);
+    return;
+  }
+
+  const decision = rateLimiter?.admitStatelessRequest(req.socket.remoteAddress ?? 'unknown', principal);
+  if (decision && !decision.allowed) {
+    sendRateLimited(res, decision);
+    return;
+  }
+
+  let exchange;
+  try {
+    exchange = await registry.createStatelessExchange(principal, workspace.workspace);
+  } catch (error) {
+    if (sendSessionRejected(res, error)) {
+      return;
+    }
+    throw error;
+  }
+
+  res.once('close', () => {
+    void exchange.close();
+  });
+  await exchange.transport.handleRequest(req, res, parsedBody);
+};
+
+const withoutHopByHop = (headers: IncomingHttpHeaders): IncomingHttpHeaders =>
+  Object.fromEntries(Object.entries(headers).filter(([name]) => !HOP_BY_HOP_HEADERS.has(name)));
+
+/** Streams the request to the worker holding its session and pipes the response back, SSE included. */
+const forwardRequest = (
   req: IncomingMessage,
   res: ServerResponse,
-  registry: SessionRegistry
+  owner: SessionOwner,
+  requestId: string
+): void => {
+  const upstream = request(
+    new URL(req.url ?? '/', owner.url),
+    {
+      method: req.method,
+      headers: { ...withoutHopByHop(req.headers), 'x-request-id': requestId }
+    },
+    (upstreamRes) => {
+      res.writeHead(upstreamRes.statusCode ?? 502, withoutHopByHop(upstreamRes.headers));
+      upstreamRes.pipe(res);
+    }
+  );
+
+  upstream.once('error', () => {
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    sendJsonRpcError(res, 502, -32_000, `Worker ${owner.workerId} holding this session is unreachable.`);
+  });
+  res.once('close', () => {
+    upstream.destroy();
+  });
+  req.pipe(upstream);
+};
+
+const handleMcpRequest = async (
+  req: AuthenticatedRequest,
+  res: ServerResponse,
+  registry: SessionRegistry,
+  { maxBodyBytes, rateLimiter, metrics, logFields, stateless }: McpRequestContext
 ): Promise<void> => {
   const method = req.method ?? 'GET';
+  const principal = req.auth ? getPrincipal(req.auth) : undefined;
 
   if (method === 'POST') {
     let parsedBody: unknown;
     try {
-      parsedBody = await readJsonBody(req);
-    } catch {
-      sendJsonRpcError(res, 400, -32_700, 'Invalid JSON body');
+      assertPostHeaders(req);
+      parsedBody = await readJsonBody(req, maxBodyBytes);
+      Object.assign(logFields, describeRpcBody(parsedBody));
+    } catch (error) {
+      if (error instanceof RequestRejectedError) {
+        if (error.statusCode === 413) {
+          res.setHeader('connection', 'close');
+        }
+        sendJsonRpcError(res, error.statusCode, error.code, error.message);
+        return;
+      }
+      throw error;
+    }
+
+    // Any POST carrying a request is answered on an SSE stream, unless responses are sent as JSON.
+    const messages: unknown[] = Array.isArray(parsedBody) ? parsedBody : [parsedBody];
+    const opensStream =
+      registry.responseMode === 'sse' && messages.some((message) => isJSONRPCRequest(message));
+    if (opensStream) {
+      metrics?.trackSseStream('request', res);
+    }
+
+    if (stateless) {
+      await handleStatelessPost(req, res, registry, parsedBody, rateLimiter);
       return;
     }
 
     const sessionId = getSessionId(req);
     if (sessionId) {
-      const state = registry.get(sessionId);
+      const state = await resolveSession(req, res, registry, sessionId, 'streamable-http');
       if (!state) {
-        sendJsonRpcError(res, 404, -32_000, `Session '${sessionId}' was not found.`);
         return;
       }
 
+      const decision = rateLimiter?.checkSession(sessionId, principal);
+      if (decision && !decision.allowed) {
+        sendRateLimited(res, decision);
+        return;
+      }
+
+      if (opensStream) {
+        registry.trackStream(sessionId, res);
+      }
+
       await state.transport.handleRequest(req, res, parsedBody);
       return;
     }
 
-    if (!isInitializeRequest(parsedBody)) {
+    // A batch may carry initialize, but only on its own.
+    const initialize = messages.find((message) => isInitializeRequest(message));
+    if (!initialize) {
       sendJsonRpcError(res, 400, -32_600, 'Initialization request requires no session ID.');
       return;
     }
+    if (messages.length > 1) {
+      sendJsonRpcError(res, 400, -32_600, 'initialize must not be batched with other messages.');
+      return;
+    }
 
-    const transport = await registry.createSessionTransport();
-    await transport.handleRequest(req, res, parsedBody);
+    const workspace = getWorkspace(req);
+    if (!workspace.ok) {
+      sendJsonRpcError(res, 400, -32_600, workspace.message);
+      return;
+    }
+
+    const decision = rateLimiter?.admitInitialize(req.socket.remoteAddress ?? 'unknown', principal);
+    if (decision && !decision.allowed) {
+      sendRateLimited(res, decision);
+      return;
+    }
+
+    try {
+      await registry.initializeSession(initialize.params, principal, workspace.workspace, (transport) =>
+        transport.handleRequest(req, res, parsedBody)
+      );
+    } catch (error) {
+      if (sendSessionRejected(res, error)) {
+        return;
+      }
+      throw error;
+    }
+    return;
+  }
+
+  if (stateless) {
+    res.statusCode = 405;
+    res.setHeader('allow', 'POST, OPTIONS');
+    res.end();
     return;
   }
 
@@ -98,53 +451,307 @@ const handleMcpRequest = async (
       return;
     }
 
-    const state = registry.get(sessionId);
+    const state = await resolveSession(req, res, registry, sessionId, 'streamable-http');
     if (!state) {
-      sendJsonRpcError(res, 404, -32_000, `Session '${sessionId}' was not found.`);
       return;
     }
 
+    const lastEventId = method === 'GET' ? getHeader(req, 'last-event-id') : undefined;
+    const lookup = lastEventId ? state.eventStore.lookupEvent(lastEventId).status : undefined;
+    if (lookup) {
+      metrics?.eventReplay(lookup === 'available' ? 'replayed' : lookup);
+    }
+
+    if (lookup === 'evicted') {
+      sendJsonRpcError(
+        res,
+        410,
+        -32_000,
+        `Events after '${lastEventId}' are no longer available; replay is incomplete. Reopen the stream without Last-Event-ID.`,
+        { lastEventId, replay: 'incomplete' }
+      );
+      return;
+    }
+
+    if (method === 'GET') {
+      metrics?.trackSseStream(lastEventId ? 'resumed' : 'standalone', res);
+      registry.trackStream(sessionId, res);
+    }
+
     await state.transport.handleRequest(req, res);
     return;
   }
 
   res.statusCode = 405;
-  res.setHeader('allow', 'GET, POST, DELETE');
+  res.setHeader('allow', 'GET, POST, DELETE, OPTIONS');
   res.end();
 };
 
-export const createMcpHttpServer = (registry: SessionRegistry) => {
-  return createServer(async (req, res) => {
+/**
+ * `GET /sse` opens a 2024-11-05 session whose stream carries every server message, starting
+ * with an `endpoint` event; the client POSTs its messages to `/messages?sessionId=` and gets `202`.
+ */
+const handleLegacyRequest = async (
+  req: AuthenticatedRequest,
+  res: ServerResponse,
+  registry: SessionRegistry,
+  requestUrl: URL,
+  { maxBodyBytes, rateLimiter, metrics, logFields }: McpRequestContext
+): Promise<void> => {
+  const principal = req.auth ? getPrincipal(req.auth) : undefined;
+
+  if (requestUrl.pathname === LEGACY_SSE_PATH) {
+    if (req.method !== 'GET') {
+      res.statusCode = 405;
+      res.setHeader('allow', 'GET, OPTIONS');
+      res.end();
+      return;
+    }
+
+    const workspace = getWorkspace(req);
+    if (!workspace.ok) {
+      sendJsonRpcError(res, 400, -32_600, workspace.message);
+      return;
+    }
+
+    const decision = rateLimiter?.admitInitialize(req.socket.remoteAddress ?? 'unknown', principal);
+    if (decision && !decision.allowed) {
+      sendRateLimited(res, decision);
+      return;
+    }
+
+    let transport;
+    try {
+      transport = await registry.createLegacySession(res, principal, workspace.workspace);
+    } catch (error) {
+      if (sendSessionRejected(res, error)) {
+        return;
+      }
+      throw error;
+    }
+
+    logFields.sessionId = transport.sessionId;
+    metrics?.trackSseStream('legacy', res);
+    registry.trackStream(transport.sessionId, res);
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.statusCode = 405;
+    res.setHeader('allow', 'POST, OPTIONS');
+    res.end();
+    return;
+  }
+
+  const sessionId = requestUrl.searchParams.get('sessionId');
+  if (!sessionId) {
+    sendJsonRpcError(res, 400, -32_000, 'Missing sessionId query parameter.');
+    return;
+  }
+  logFields.sessionId = sessionId;
+
+  let messages: JSONRPCMessage[];
+  try {
+    const mediaType = getHeader(req, 'content-type')?.split(';')[0]?.trim().toLowerCase();
+    if (mediaType !== 'application/json') {
+      throw new RequestRejectedError(
+        415,
+        -32_000,
+        'Unsupported Media Type: content-type must be application/json.'
+      );
+    }
+
+    const body = await readJsonBody(req, maxBodyBytes);
+    Object.assign(logFields, describeRpcBody(body));
+    const parsed = (Array.isArray(body) ? body : [body]).map((message) =>
+      JSONRPCMessageSchema.safeParse(message)
+    );
+    if (parsed.length === 0 || parsed.some((result) => !result.success)) {
+      throw new RequestRejectedError(400, -32_600, 'Body must be a JSON-RPC message or a batch of them.');
+    }
+    messages = parsed.flatMap((result) => (result.success ? [result.data] : []));
+  } catch (error) {
+    if (error instanceof RequestRejectedError) {
+      sendJsonRpcError(res, error.statusCode, error.code, error.message);
+      return;
+    }
+    throw error;
+  }
+
+  const state = await resolveSession(req, res, registry, sessionId, 'sse');
+  if (!state) {
+    return;
+  }
+
+  const decision = rateLimiter?.checkSession(sessionId, principal);
+  if (decision && !decision.allowed) {
+    sendRateLimited(res, decision);
+    return;
+  }
+
+  state.transport.receive(messages, { authInfo: req.auth });
+  res.statusCode = 202;
+  res.end('Accepted');
+};
+
+export const createMcpHttpServer = (registry: SessionRegistry, options: McpHttpServerOptions = {}) => {
+  const {
+    auth,
+    originPolicy,
+    maxBodyBytes = DEFAULT_MAX_BODY_BYTES,
+    rateLimiter,
+    logger = new Logger(),
+    metrics,
+    admin,
+    legacySse = false,
+    stateless = false,
+    sessionDirectory
+  } = options;
+
+  return createServer(async (req: AuthenticatedRequest, res) => {
+    const requestId = getHeader(req, 'x-request-id') ?? randomUUID();
+    const startedAtMs = Date.now();
+    const logFields: LogFields = {};
+    res.setHeader('x-request-id', requestId);
+
+    res.once('close', () => {
+      const path = (req.url ?? '/').split('?')[0] ?? '/';
+      // The worker the request was forwarded to counts it.
+      if (path === '/mcp' && logFields.forwardedTo === undefined) {
+        metrics?.httpRequest(req.method ?? 'GET', res.statusCode);
+      }
+
+      const mcpTraffic = path === '/mcp' || (legacySse && LEGACY_PATHS.has(path));
+      const level = res.statusCode >= 500 ? 'error' : mcpTraffic ? 'info' : 'debug';
+      logger.log(level, 'http request', {
+        requestId,
+        method: req.method,
+        path,
+        status: res.statusCode,
+        durationMs: Date.now() - startedAtMs,
+        sessionId: getSessionId(req) ?? res.getHeader('mcp-session-id'),
+        remoteAddress: req.socket.remoteAddress,
+        ...logFields
+      });
+    });
+
     try {
       const requestUrl = new URL(req.url ?? '/', 'http://127.0.0.1');
+      const legacyPath = legacySse && LEGACY_PATHS.has(requestUrl.pathname);
+
+      if (requestUrl.pathname === '/livez') {
+        sendJson(res, 200, { ok: true });
+        return;
+      }
+
+      if (requestUrl.pathname === '/readyz') {
+        const draining = registry.isDraining();
+        sendJson(res, draining ? 503 : 200, { ready: !draining, draining });
+        return;
+      }
 
       if (requestUrl.pathname === '/health') {
-        sendJson(res, 200, {
-          ok: true,
+        const draining = registry.isDraining();
+        sendJson(res, draining ? 503 : 200, {
+          ok: !draining,
+          draining,
           activeSessions: registry.count(),
-          sessions: registry.list()
+          ...(auth ? {} : { sessions: registry.list() })
         });
         return;
       }
 
+      if (admin && (await admin(req, res, requestUrl))) {
+        return;
+      }
+
+      const routedSessionId =
+        requestUrl.pathname === '/mcp'
+          ? getSessionId(req)
+          : legacyPath && requestUrl.pathname === LEGACY_MESSAGES_PATH
+            ? (requestUrl.searchParams.get('sessionId') ?? undefined)
+            : undefined;
+      if (sessionDirectory && routedSessionId && !registry.get(routedSessionId)) {
+        const owner = await sessionDirectory.lookup(routedSessionId);
+        if (owner) {
+          logFields.forwardedTo = owner.workerId;
+          forwardRequest(req, res, owner, requestId);
+          return;
+        }
+      }
+
+      if (
+        requestUrl.pathname === '/mcp' ||
+        legacyPath ||
+        requestUrl.pathname.startsWith(PROTECTED_RESOURCE_METADATA_PATH)
+      ) {
+        const origin = originPolicy ? checkRequestOrigin(req, originPolicy) : { ok: true as const };
+        if (!origin.ok) {
+          sendJsonRpcError(res, 403, -32_000, origin.message);
+          return;
+        }
+
+        applyCorsHeaders(res, origin.origin);
+        if (req.method === 'OPTIONS') {
+          sendPreflight(res);
+          return;
+        }
+      }
+
+      if (
+        auth &&
+        (requestUrl.pathname === PROTECTED_RESOURCE_METADATA_PATH ||
+          requestUrl.pathname === `${PROTECTED_RESOURCE_METADATA_PATH}/mcp`)
+      ) {
+        sendJson(res, 200, auth.getResourceMetadata());
+        return;
+      }
+
+      if (metrics && requestUrl.pathname === '/metrics') {
+        res.statusCode = 200;
+        res.setHeader('content-type', METRICS_CONTENT_TYPE);
+        res.end(metrics.render());
+        return;
+      }
+
       if (requestUrl.pathname === '/') {
         sendJson(res, 200, {
           name: 'example-mcp-sse',
           transport: 'Streamable HTTP with notification streaming',
           endpoint: '/mcp',
-          health: '/health'
+          ...(stateless ? { sessions: 'stateless' } : {}),
+          ...(legacySse ? { legacySse: { stream: LEGACY_SSE_PATH, messages: LEGACY_MESSAGES_PATH } } : {}),
+          health: '/health',
+          liveness: '/livez',
+          readiness: '/readyz'
         });
         return;
       }
 
-      if (requestUrl.pathname !== '/mcp') {
+      if (requestUrl.pathname !== '/mcp' && !legacyPath) {
         sendJson(res, 404, { error: 'Not found' });
         return;
       }
 
-      await handleMcpRequest(req, res, registry);
+      if (auth) {
+        const result = auth.authenticate(getHeader(req, 'authorization'));
+        if (!result.ok) {
+          res.setHeader('www-authenticate', auth.challenge(result));
+          sendJsonRpcError(res, 401, -32_000, result.description);
+          return;
+        }
+        req.auth = result.authInfo;
+      }
+
+      const context = { maxBodyBytes, rateLimiter, metrics, logFields, stateless };
+      if (legacyPath) {
+        await handleLegacyRequest(req, res, registry, requestUrl, context);
+        return;
+      }
+
+      await handleMcpRequest(req, res, registry, context);
     } catch (error) {
-      console.error('[http] request failure:', error);
+      logger.error('request failed', { requestId, error });
       sendJsonRpcError(res, 500, -32_603, 'Internal server error');
     }
   });
@@ -1,51 +1,246 @@
 import type { EventStore, JSONRPCMessage } from '@modelcontextprotocol/server';
 
-interface StoredEvent {
-  streamId: string;
+export interface EventStoreOptions {
+  /** Events kept per stream before the oldest are evicted. */
+  maxEventsPerStream?: number;
+  /** Events older than this are evicted. `0` keeps events until the count limit applies. */
+  maxEventAgeMs?: number;
+}
+
+export type EventLookup =
+  | { status: 'available'; streamId: string }
+  | { status: 'evicted'; streamId: string }
+  | { status: 'unknown' };
+
+export interface StoredEvent {
+  seq: number;
+  eventId: string;
   message: JSONRPCMessage;
   createdAtMs: number;
 }
 
+export class EventReplayGapError extends Error {
+  constructor(readonly lastEventId: string) {
+    super(`Events after '${lastEventId}' were evicted; replay would be incomplete.`);
+    this.name = 'EventReplayGapError';
+  }
+}
+
+const SEQ_WIDTH = 12;
+
+const formatEventId = (streamId: string, seq: number): string =>
+  `${streamId}_${seq.toString().padStart(SEQ_WIDTH, '0')}`;
+
+const parseEventId = (eventId: string): { streamId: string; seq: number } | undefined => {
+  const separator = eventId.lastIndexOf('_');
+  if (separator <= 0) {
+    return undefined;
+  }
+
+  const rawSeq = eventId.slice(separator + 1);
+  if (!/^\d+$/.test(rawSeq)) {
+    return undefined;
+  }
+
+  return { streamId: eventId.slice(0, separator), seq: Number(rawSeq) };
+};
+
+class EventRing {
+  private readonly slots: Array<StoredEvent | undefined>;
+  private start = 0;
+  private length = 0;
+
+  constructor(
+    readonly capacity: number,
+    private readonly onEvict: (seq: number) => void
+  ) {
+    this.slots = new Array<StoredEvent | undefined>(capacity);
+  }
+
+  get size(): number {
+    return this.length;
+  }
+
+  at(index: number): StoredEvent {
+    return this.slots[(this.start + index) % this.capacity] as StoredEvent;
+  }
+
+  oldest(): StoredEvent | undefined {
+    return this.length > 0 ? this.at(0) : undefined;
+  }
+
+  push(event: StoredEvent): void {
+    if (this.length === this.capacity) {
+      this.shift();
+    }
+
+    this.slots[(this.start + this.length) % this.capacity] = event;
+    this.length += 1;
+  }
+
+  shift(): void {
+    this.onEvict(this.at(0).seq);
+    this.slots[this.start] = undefined;
+    this.start = (this.start + 1) % this.capacity;
+    this.length -= 1;
+  }
+
+  dropOlderThan(cutoffMs: number): void {
+    while (this.length > 0 && this.at(0).createdAtMs < cutoffMs) {
+      this.shift();
+    }
+  }
+
+  /** Index of the first event whose sequence number is greater than `seq`. */
+  indexAfter(seq: number): number {
+    let low = 0;
+    let high = this.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.at(mid).seq <= seq) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  has(seq: number): boolean {
+    const index = this.indexAfter(seq) - 1;
+    return index >= 0 && this.at(index).seq === seq;
+  }
+}
+
 export class InMemoryEventStore implements EventStore {
-  private readonly events = new Map<string, StoredEvent>();
+  protected readonly streams = new Map<string, EventRing>();
+  /** Newest evicted seq per stream, kept after an expired stream's ring is deleted. */
+  protected readonly lastEvictedSeqs = new Map<string, number>();
+  protected lastSeq = 0;
+  private readonly maxEventsPerStream: number;
+  private readonly maxEventAgeMs: number;
+
+  constructor(options: EventStoreOptions = {}) {
+    this.maxEventsPerStream = options.maxEventsPerStream ?? 1000;
+    this.maxEventAgeMs = options.maxEventAgeMs ?? 0;
+  }
+
+  async clear(): Promise<void> {
+    this.streams.clear();
+    this.lastEvictedSeqs.clear();
+  }
+
+  size(): number {
+    let total = 0;
+    for (const ring of this.streams.values()) {
+      total += ring.size;
+    }
+    return total;
+  }
 
   async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
-    const eventId = `${streamId}_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
-    this.events.set(eventId, {
-      streamId,
+    this.lastSeq += 1;
+    const event: StoredEvent = {
+      seq: this.lastSeq,
+      eventId: formatEventId(streamId, this.lastSeq),
       message,
       createdAtMs: Date.now()
-    });
-    return eventId;
+    };
+
+    this.appendToRing(streamId, event);
+    this.pruneExpired();
+    return event.eventId;
+  }
+
+  async getStreamIdForEventId(eventId: string): Promise<string | undefined> {
+    const lookup = this.lookupEvent(eventId);
+    return lookup.status === 'unknown' ? undefined : lookup.streamId;
+  }
+
+  lookupEvent(eventId: string): EventLookup {
+    const parsed = parseEventId(eventId);
+    if (!parsed || parsed.seq > this.lastSeq) {
+      return { status: 'unknown' };
+    }
+
+    this.pruneExpired();
+    const ring = this.streams.get(parsed.streamId);
+    if (ring?.has(parsed.seq)) {
+      return { status: 'available', streamId: parsed.streamId };
+    }
+
+    // Seqs are shared by every stream, so only an evicted event newer than the client's last one
+    // means the replay would skip something. A client holding the newest evicted event missed nothing.
+    const lastEvictedSeq = this.lastEvictedSeqs.get(parsed.streamId);
+    if (lastEvictedSeq === undefined || parsed.seq > lastEvictedSeq) {
+      return { status: 'unknown' };
+    }
+
+    return lastEvictedSeq > parsed.seq
+      ? { status: 'evicted', streamId: parsed.streamId }
+      : { status: 'available', streamId: parsed.streamId };
   }
 
   async replayEventsAfter(
     lastEventId: string,
     { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
   ): Promise<string> {
-    const lastEvent = this.events.get(lastEventId);
-    if (!lastEvent) {
+    const lookup = this.lookupEvent(lastEventId);
+    if (lookup.status === 'unknown') {
       return '';
     }
+    if (lookup.status === 'evicted') {
+      throw new EventReplayGapError(lastEventId);
+    }
 
-    const ordered = [...this.events.entries()].sort((a, b) => a[1].createdAtMs - b[1].createdAtMs);
+    const ring = this.streams.get(lookup.streamId);
+    const parsed = parseEventId(lastEventId);
+    if (!ring || !parsed) {
+      return lookup.streamId;
+    }
 
-    let found = false;
-    for (const [eventId, event] of ordered) {
-      if (event.streamId !== lastEvent.streamId) {
-        continue;
-      }
+    const pending: StoredEvent[] = [];
+    for (let index = ring.indexAfter(parsed.seq); index < ring.size; index += 1) {
+      pending.push(ring.at(index));
+    }
 
-      if (eventId === lastEventId) {
-        found = true;
-        continue;
-      }
+    for (const event of pending) {
+      await send(event.eventId, event.message);
+    }
 
-      if (found) {
-        await send(eventId, event.message);
-      }
+    return lookup.streamId;
+  }
+
+  protected appendToRing(streamId: string, event: StoredEvent): void {
+    let ring = this.streams.get(streamId);
+    if (!ring) {
+      ring = new EventRing(this.maxEventsPerStream, (seq) => this.lastEvictedSeqs.set(streamId, seq));
+      this.streams.set(streamId, ring);
     }
 
-    return lastEvent.streamId;
+    ring.push(event);
+  }
+
+  protected streamEvents(streamId: string): StoredEvent[] {
+    const ring = this.streams.get(streamId);
+    const events: StoredEvent[] = [];
+    for (let index = 0; ring && index < ring.size; index += 1) {
+      events.push(ring.at(index));
+    }
+    return events;
+  }
+
+  protected pruneExpired(): void {
+    if (this.maxEventAgeMs <= 0) {
+      return;
+    }
+
+    const cutoffMs = Date.now() - this.maxEventAgeMs;
+    for (const [streamId, ring] of this.streams) {
+      ring.dropOlderThan(cutoffMs);
+      if (ring.size === 0) {
+        this.streams.delete(streamId);
+      }
+    }
   }
 }
@@ -0,0 +1,65 @@
+import type { ServerResponse } from 'node:http';
+
+import type { JSONRPCMessage, MessageExtraInfo, Transport } from '@modelcontextprotocol/server';
+
+/** Where legacy clients POST their messages; the session ID travels in the `sessionId` query parameter. */
+export const LEGACY_MESSAGES_PATH = '/messages';
+
+export const LEGACY_SSE_PATH = '/sse';
+
+/**
+ * Server side of the 2024-11-05 HTTP+SSE transport, which SDK v2 no longer ships. The client
+ * keeps `GET /sse` open for every server message and sends its own to `POST /messages`. There
+ * is no event store: the session ends when the stream closes.
+ */
+export class LegacySseServerTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
+  private closed = false;
+
+  constructor(
+    readonly sessionId: string,
+    private readonly res: ServerResponse
+  ) {}
+
+  async start(): Promise<void> {
+    this.res.writeHead(200, {
+      'content-type': 'text/event-stream',
+      'cache-control': 'no-cache, no-transform',
+      connection: 'keep-alive'
+    });
+    this.res.once('close', () => {
+      void this.close();
+    });
+    this.writeEvent('endpoint', `${LEGACY_MESSAGES_PATH}?sessionId=${encodeURIComponent(this.sessionId)}`);
+  }
+
+  /** Delivers messages from a `POST /messages` body; their responses go out on the stream. */
+  receive(messages: JSONRPCMessage[], extra: MessageExtraInfo): void {
+    for (const message of messages) {
+      this.onmessage?.(message, extra);
+    }
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error(`Legacy SSE stream for session '${this.sessionId}' is closed.`);
+    }
+    this.writeEvent('message', JSON.stringify(message));
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    this.res.end();
+    this.onclose?.();
+  }
+
+  private writeEvent(event: string, data: string): void {
+    this.res.write(`event: ${event}\ndata: ${data}\n\n`);
+  }
+}
@@ -0,0 +1,105 @@
+import process from 'node:process';
+
+import type { LoggingLevel, ServerContext } from '@modelcontextprotocol/server';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  /** Fields added to every line, e.g. `component` or `sessionId`. */
+  bindings?: LogFields;
+  /** Receives one serialized JSON line per entry. Defaults to stdout. */
+  write?: (line: string) => void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const MCP_TO_LOG_LEVEL: Record<LoggingLevel, LogLevel> = {
+  debug: 'debug',
+  info: 'info',
+  notice: 'info',
+  warning: 'warn',
+  error: 'error',
+  critical: 'error',
+  alert: 'error',
+  emergency: 'error'
+};
+
+export const isLogLevel = (value: string | undefined): value is LogLevel =>
+  value !== undefined && value in LEVEL_ORDER;
+
+const serializeValue = (value: unknown): unknown =>
+  value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value;
+
+export class Logger {
+  private readonly level: LogLevel;
+  private readonly bindings: LogFields;
+  private readonly write: (line: string) => void;
+
+  constructor(options: LoggerOptions = {}) {
+    this.level = options.level ?? 'info';
+    this.bindings = options.bindings ?? {};
+    this.write = options.write ?? ((line) => process.stdout.write(`${line}\n`));
+  }
+
+  child(bindings: LogFields): Logger {
+    return new Logger({ level: this.level, bindings: { ...this.bindings, ...bindings }, write: this.write });
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LEVEL_ORDER[level] >= LEVEL_ORDER[this.level];
+  }
+
+  log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const entry: LogFields = { time: new Date().toISOString(), level, msg: message, ...this.bindings };
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined) {
+        entry[key] = serializeValue(value);
+      }
+    }
+    this.write(JSON.stringify(entry));
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+}
+
+/**
+ * Logs from inside an MCP handler: writes a server log line correlated with the
+ * session and JSON-RPC request, then sends the same message to the client as a
+ * `notifications/message`.
+ */
+export const logToClient = async (
+  logger: Logger,
+  ctx: ServerContext,
+  level: LoggingLevel,
+  message: string,
+  fields: LogFields = {}
+): Promise<void> => {
+  logger.log(MCP_TO_LOG_LEVEL[level], message, {
+    sessionId: ctx.sessionId,
+    rpcMethod: ctx.mcpReq.method,
+    rpcId: ctx.mcpReq.id,
+    ...fields
+  });
+  await ctx.mcpReq.log(level, message, 'example-mcp-sse');
+};
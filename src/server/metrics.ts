@@ -0,0 +1,273 @@
+import type { ServerResponse } from 'node:http';
+
+import { ClientRequestSchema } from '@modelcontextprotocol/server';
+
+type Labels = Record<string, string>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface Metric {
+  name: string;
+  help: string;
+  type: MetricType;
+  render(): string[];
+}
+
+const DEFAULT_LATENCY_BUCKETS_SECONDS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const escapeLabelValue = (value: string): string =>
+  value.replaceAll('\\', '\\\\').replaceAll('"', '\\"').replaceAll('\n', '\\n');
+
+const formatLabels = (labels: Labels): string => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+};
+
+// Clients choose the method string, so only methods the SDK knows become label values.
+const KNOWN_REQUEST_METHODS: ReadonlySet<string> = new Set(
+  ClientRequestSchema.options.map((option) => option.shape.method.value)
+);
+
+const seriesKey = (labels: Labels): string => JSON.stringify(Object.entries(labels).sort());
+
+class Counter implements Metric {
+  readonly type = 'counter';
+  private readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string
+  ) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key) ?? { labels, value: 0 };
+    entry.value += value;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+    );
+  }
+}
+
+class Gauge implements Metric {
+  readonly type = 'gauge';
+  private readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly collect?: () => number
+  ) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key) ?? { labels, value: 0 };
+    entry.value += value;
+    this.series.set(key, entry);
+  }
+
+  dec(labels: Labels = {}, value = 1): void {
+    this.inc(labels, -value);
+  }
+
+  render(): string[] {
+    if (this.collect) {
+      return [`${this.name} ${this.collect()}`];
+    }
+    return [...this.series.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+    );
+  }
+}
+
+class Histogram implements Metric {
+  readonly type = 'histogram';
+  private readonly series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly buckets: number[] = DEFAULT_LATENCY_BUCKETS_SECONDS
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.counts[index] = (entry.counts[index] ?? 0) + 1;
+      }
+    });
+    entry.sum += value;
+    entry.count += 1;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    return [...this.series.values()].flatMap(({ labels, counts, sum, count }) => [
+      ...this.buckets.map(
+        (bound, index) =>
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+      `${this.name}_sum${formatLabels(labels)} ${sum}`,
+      `${this.name}_count${formatLabels(labels)} ${count}`
+    ]);
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  /** Pass `collect` for gauges whose value is read from elsewhere at scrape time. */
+  gauge(name: string, help: string, collect?: () => number): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /** Prometheus text exposition format, version 0.0.4. */
+  render(): string {
+    const lines = this.metrics.flatMap((metric) => [
+      `# HELP ${metric.name} ${metric.help}`,
+      `# TYPE ${metric.name} ${metric.type}`,
+      ...metric.render()
+    ]);
+    return `${lines.join('\n')}\n`;
+  }
+
+  private register<M extends Metric>(metric: M): M {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** `legacy` is the single stream of a 2024-11-05 HTTP+SSE session. */
+export type SseStreamKind = 'standalone' | 'request' | 'resumed' | 'legacy';
+
+export interface MetricsSources {
+  activeSessions: () => number;
+  storedEvents: () => number;
+}
+
+export class ServerMetrics {
+  readonly registry = new MetricsRegistry();
+
+  private readonly sessionsCreated = this.registry.counter(
+    'mcp_sessions_created_total',
+    'Sessions created by initialize; sessions restored from persisted state are not counted.'
+  );
+  private readonly sessionsClosed = this.registry.counter(
+    'mcp_sessions_closed_total',
+    'Sessions closed, by reason.'
+  );
+  private readonly jsonRpcRequests = this.registry.counter(
+    'mcp_jsonrpc_requests_total',
+    'JSON-RPC requests answered, by method and outcome.'
+  );
+  private readonly httpRequests = this.registry.counter(
+    'mcp_http_requests_total',
+    'HTTP requests to /mcp, by method and status.'
+  );
+  private readonly toolCalls = this.registry.counter(
+    'mcp_tool_calls_total',
+    'Tool invocations, by tool and outcome.'
+  );
+  private readonly toolDuration = this.registry.histogram(
+    'mcp_tool_call_duration_seconds',
+    'Tool handler latency in seconds, by tool.'
+  );
+  private readonly replays = this.registry.counter(
+    'mcp_event_replays_total',
+    'Last-Event-ID resumption attempts, by result.'
+  );
+  private readonly sseStreams = this.registry.gauge(
+    'mcp_sse_streams_open',
+    'Open SSE response streams, by kind.'
+  );
+
+  constructor(sources?: MetricsSources) {
+    if (sources) {
+      this.registry.gauge(
+        'mcp_sessions_active',
+        'Sessions currently held in memory.',
+        sources.activeSessions
+      );
+      this.registry.gauge(
+        'mcp_event_store_events',
+        'Replay events retained across all session event stores.',
+        sources.storedEvents
+      );
+    }
+  }
+
+  sessionCreated(): void {
+    this.sessionsCreated.inc();
+  }
+
+  sessionClosed(reason: string): void {
+    this.sessionsClosed.inc({ reason });
+  }
+
+  jsonRpcRequest(method: string, outcome: string): void {
+    this.jsonRpcRequests.inc({ method: KNOWN_REQUEST_METHODS.has(method) ? method : 'other', outcome });
+  }
+
+  httpRequest(method: string, status: number): void {
+    this.httpRequests.inc({ method, status: String(status) });
+  }
+
+  eventReplay(result: 'replayed' | 'evicted' | 'unknown'): void {
+    this.replays.inc({ result });
+  }
+
+  /** Counts a stream as open until `res` closes. */
+  trackSseStream(kind: SseStreamKind, res: ServerResponse): void {
+    this.sseStreams.inc({ kind });
+    res.once('close', () => this.sseStreams.dec({ kind }));
+  }
+
+  /** Wraps a tool callback to count its calls and record its latency. */
+  instrumentTool<Args extends unknown[], Result>(
+    tool: string,
+    handler: (...args: Args) => Promise<Result>
+  ): (...args: Args) => Promise<Result> {
+    return async (...args) => {
+      const startedAt = performance.now();
+      let outcome = 'exception';
+      try {
+        const result = await handler(...args);
+        const isError =
+          typeof result === 'object' && result !== null && 'isError' in result && result.isError === true;
+        outcome = isError ? 'error' : 'ok';
+        return result;
+      } finally {
+        this.toolCalls.inc({ tool, outcome });
+        this.toolDuration.observe({ tool }, (performance.now() - startedAt) / 1000);
+      }
+    };
+  }
+
+  render(): string {
+    return this.registry.render();
+  }
+}
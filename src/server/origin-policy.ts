@@ -0,0 +1,89 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+import { localhostAllowedHostnames, validateHostHeader } from '@modelcontextprotocol/server';
+
+export interface OriginPolicyConfig {
+  /** Hostnames accepted in the `Host` header. Empty disables the check. */
+  allowedHosts: string[];
+  /** Exact origins allowed to call `/mcp` from a browser. `*` allows any; empty allows loopback origins only. */
+  allowedOrigins: string[];
+}
+
+export type OriginCheckResult = { ok: true; origin?: string } | { ok: false; message: string };
+
+const ALLOWED_METHODS = 'GET, POST, DELETE, OPTIONS';
+
+const ALLOWED_REQUEST_HEADERS = [
+  'accept',
+  'authorization',
+  'content-type',
+  'last-event-id',
+  'mcp-protocol-version',
+  'mcp-session-id',
+  'x-workspace-id'
+].join(', ');
+
+const EXPOSED_RESPONSE_HEADERS = ['mcp-session-id', 'mcp-protocol-version', 'www-authenticate'].join(', ');
+
+const isOriginAllowed = (origin: string, allowedOrigins: string[]): boolean => {
+  if (allowedOrigins.includes('*') || allowedOrigins.includes(origin)) {
+    return true;
+  }
+  if (allowedOrigins.length > 0) {
+    return false;
+  }
+
+  try {
+    return localhostAllowedHostnames().includes(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+};
+
+export const checkRequestOrigin = (req: IncomingMessage, policy: OriginPolicyConfig): OriginCheckResult => {
+  if (policy.allowedHosts.length > 0) {
+    const host = validateHostHeader(req.headers.host, policy.allowedHosts);
+    if (!host.ok) {
+      return { ok: false, message: host.message };
+    }
+  }
+
+  // Non-browser clients send no Origin; DNS rebinding always comes from a browser that does.
+  const origin = req.headers.origin;
+  if (origin === undefined) {
+    return { ok: true };
+  }
+
+  return isOriginAllowed(origin, policy.allowedOrigins)
+    ? { ok: true, origin }
+    : { ok: false, message: `Origin '${origin}' is not allowed.` };
+};
+
+export const applyCorsHeaders = (res: ServerResponse, origin: string | undefined): void => {
+  res.setHeader('vary', 'origin');
+  if (!origin) {
+    return;
+  }
+
+  res.setHeader('access-control-allow-origin', origin);
+  res.setHeader('access-control-expose-headers', EXPOSED_RESPONSE_HEADERS);
+};
+
+export const sendPreflight = (res: ServerResponse): void => {
+  res.statusCode = 204;
+  res.setHeader('access-control-allow-methods', ALLOWED_METHODS);
+  res.setHeader('access-control-allow-headers', ALLOWED_REQUEST_HEADERS);
+  res.setHeader('access-control-max-age', '86400');
+  res.end();
+};
+
+/** Loopback binds default to loopback hostnames; wildcard binds skip the Host check unless configured. */
+export const defaultAllowedHosts = (host: string): string[] => {
+  if (host === '0.0.0.0' || host === '::') {
+    return [];
+  }
+
+  const loopback = localhostAllowedHostnames();
+  const bracketed = host.includes(':') ? `[${host}]` : host;
+  return loopback.includes(bracketed) ? loopback : [...loopback, bracketed];
+};
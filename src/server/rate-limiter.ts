@@ -0,0 +1,178 @@
+export interface TokenBucketConfig {
+  /** Bucket capacity, i.e. the largest burst allowed after a quiet period. */
+  burst: number;
+  refillPerSecond: number;
+}
+
+export interface RateLimitConfig {
+  /** Requests within one session, or from one remote address in stateless mode. */
+  session?: TokenBucketConfig;
+  /** `initialize` requests per remote address. */
+  initialize?: TokenBucketConfig;
+  /** Requests per authenticated principal, across all of its sessions. */
+  principal?: TokenBucketConfig;
+}
+
+export type RateLimitScope = keyof RateLimitConfig;
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; scope: RateLimitScope; retryAfterMs: number };
+
+export interface BucketSnapshot {
+  tokens: number;
+  burst: number;
+  refillPerSecond: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAtMs: number;
+}
+
+const PRUNE_INTERVAL_MS = 60_000;
+
+export class TokenBucketLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+  private lastPruneAtMs = Date.now();
+
+  constructor(private readonly config: TokenBucketConfig) {}
+
+  /** Milliseconds until `cost` tokens are available for `key`; `0` when they already are. */
+  retryAfterMs(key: string, cost = 1): number {
+    const { tokens } = this.refill(key, Date.now());
+    if (tokens >= cost) {
+      return 0;
+    }
+
+    return Math.ceil(((cost - tokens) / this.config.refillPerSecond) * 1000);
+  }
+
+  take(key: string, cost = 1): boolean {
+    const now = Date.now();
+    this.pruneFullBuckets(now);
+
+    const bucket = this.refill(key, now);
+    if (bucket.tokens < cost) {
+      return false;
+    }
+
+    bucket.tokens -= cost;
+    this.buckets.set(key, bucket);
+    return true;
+  }
+
+  snapshot(key: string): BucketSnapshot {
+    return {
+      tokens: Math.floor(this.refill(key, Date.now()).tokens),
+      burst: this.config.burst,
+      refillPerSecond: this.config.refillPerSecond
+    };
+  }
+
+  delete(key: string): void {
+    this.buckets.delete(key);
+  }
+
+  private refill(key: string, now: number): Bucket {
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      return { tokens: this.config.burst, updatedAtMs: now };
+    }
+
+    const elapsedSeconds = (now - bucket.updatedAtMs) / 1000;
+    bucket.tokens = Math.min(this.config.burst, bucket.tokens + elapsedSeconds * this.config.refillPerSecond);
+    bucket.updatedAtMs = now;
+    return bucket;
+  }
+
+  // A full bucket behaves exactly like a missing one, so idle keys can be dropped.
+  private pruneFullBuckets(now: number): void {
+    if (now - this.lastPruneAtMs < PRUNE_INTERVAL_MS) {
+      return;
+    }
+
+    this.lastPruneAtMs = now;
+    for (const key of [...this.buckets.keys()]) {
+      if (this.refill(key, now).tokens >= this.config.burst) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+export class RateLimiter {
+  private readonly limiters: { [Scope in RateLimitScope]?: TokenBucketLimiter };
+
+  constructor(config: RateLimitConfig) {
+    this.limiters = {
+      session: config.session && new TokenBucketLimiter(config.session),
+      initialize: config.initialize && new TokenBucketLimiter(config.initialize),
+      principal: config.principal && new TokenBucketLimiter(config.principal)
+    };
+  }
+
+  /** Charges an `initialize` request to its remote address and principal. */
+  admitInitialize(remoteAddress: string, principal: string | undefined): RateLimitDecision {
+    return this.consume([
+      ['initialize', remoteAddress],
+      ['principal', principal]
+    ]);
+  }
+
+  /** Checks, without charging, whether a session can accept at least one more request. */
+  checkSession(sessionId: string, principal: string | undefined): RateLimitDecision {
+    return this.evaluate([
+      ['session', sessionId],
+      ['principal', principal]
+    ]);
+  }
+
+  /** Charges one JSON-RPC request to its session and principal. */
+  admitMessage(sessionId: string, principal: string | undefined): RateLimitDecision {
+    return this.consume([
+      ['session', sessionId],
+      ['principal', principal]
+    ]);
+  }
+
+  /** Stateless mode has no sessions, so each request is charged to its remote address instead. */
+  admitStatelessRequest(remoteAddress: string, principal: string | undefined): RateLimitDecision {
+    return this.consume([
+      ['session', `address:${remoteAddress}`],
+      ['principal', principal]
+    ]);
+  }
+
+  sessionSnapshot(sessionId: string): BucketSnapshot | undefined {
+    return this.limiters.session?.snapshot(sessionId);
+  }
+
+  forgetSession(sessionId: string): void {
+    this.limiters.session?.delete(sessionId);
+  }
+
+  private evaluate(keys: Array<[RateLimitScope, string | undefined]>): RateLimitDecision {
+    for (const [scope, key] of keys) {
+      const retryAfterMs = key === undefined ? 0 : (this.limiters[scope]?.retryAfterMs(key) ?? 0);
+      if (retryAfterMs > 0) {
+        return { allowed: false, scope, retryAfterMs };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  private consume(keys: Array<[RateLimitScope, string | undefined]>): RateLimitDecision {
+    const decision = this.evaluate(keys);
+    if (decision.allowed) {
+      for (const [scope, key] of keys) {
+        if (key !== undefined) {
+          this.limiters[scope]?.take(key);
+        }
+      }
+    }
+
+    return decision;
+  }
+}
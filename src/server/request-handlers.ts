@@ -0,0 +1,32 @@
+import type {
+  McpServer,
+  RequestMethod,
+  RequestTypeMap,
+  ResultTypeMap,
+  ServerContext
+} from '@modelcontextprotocol/server';
+
+export type RequestHandler<M extends RequestMethod> = (
+  request: RequestTypeMap[M],
+  ctx: ServerContext
+) => ResultTypeMap[M] | Promise<ResultTypeMap[M]>;
+
+/** Per-method wrappers; handlers for other methods are registered unchanged. */
+export type RequestHandlerWrappers = {
+  [M in RequestMethod]?: (handler: RequestHandler<M>) => RequestHandler<M>;
+};
+
+/**
+ * Wraps request handlers as the server registers them. `McpServer` installs its list and
+ * completion handlers lazily on first use, so this must run before the first registration.
+ * Wrappers added later run first.
+ */
+export const wrapRequestHandlers = (server: McpServer, wrappers: RequestHandlerWrappers): void => {
+  const protocol = server.server;
+  const setRequestHandler = protocol.setRequestHandler.bind(protocol);
+
+  protocol.setRequestHandler = <M extends RequestMethod>(method: M, handler: RequestHandler<M>): void => {
+    const wrap = wrappers[method];
+    setRequestHandler(method, wrap ? wrap(handler) : handler);
+  };
+};
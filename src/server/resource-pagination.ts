@@ -0,0 +1,45 @@
+import type { McpServer } from '@modelcontextprotocol/server';
+import { ProtocolError, ProtocolErrorCode } from '@modelcontextprotocol/server';
+
+import { wrapRequestHandlers } from './request-handlers.js';
+
+export const DEFAULT_RESOURCE_PAGE_SIZE = 50;
+
+const encodeCursor = (offset: number): string =>
+  Buffer.from(JSON.stringify({ offset })).toString('base64url');
+
+const decodeCursor = (cursor: string | undefined): number => {
+  if (cursor === undefined) {
+    return 0;
+  }
+
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as { offset?: unknown };
+    if (typeof offset === 'number' && Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Fall through to the error below.
+  }
+  throw new ProtocolError(ProtocolErrorCode.InvalidParams, `Invalid cursor '${cursor}'.`);
+};
+
+/**
+ * Pages `resources/list` with opaque offset cursors. `McpServer` calls template `list`
+ * callbacks without the request's cursor, so the combined list is sliced here. Attach
+ * before `ScopePolicy` so pages are cut from the scope-filtered list.
+ */
+export const paginateResourceList = (server: McpServer, pageSize = DEFAULT_RESOURCE_PAGE_SIZE): void => {
+  wrapRequestHandlers(server, {
+    'resources/list': (handler) => async (request, ctx) => {
+      const offset = decodeCursor(request.params?.cursor);
+      const result = await handler(request, ctx);
+      const end = offset + pageSize;
+      return {
+        ...result,
+        resources: result.resources.slice(offset, end),
+        ...(end < result.resources.length ? { nextCursor: encodeCursor(end) } : {})
+      };
+    }
+  });
+};
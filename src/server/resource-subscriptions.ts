@@ -0,0 +1,69 @@
+import type { McpServer, ServerContext } from '@modelcontextprotocol/server';
+
+import type { Logger } from './logger.js';
+
+export interface ResourceSubscriptionsOptions {
+  /** URIs the session subscribed to before it was rebuilt. */
+  initial?: string[];
+  /** Throws when `uri` is not a subscribable resource for the caller. */
+  authorize: (uri: string, ctx: ServerContext) => void;
+  onChange?: (uris: string[]) => void;
+  logger: Logger;
+}
+
+/**
+ * Tracks one session's `resources/subscribe` set and sends `notifications/resources/updated`
+ * for subscribed URIs. Notifications have no related request, so they go out on the
+ * standalone GET stream, and the event store replays them to a client that reconnects.
+ */
+export class ResourceSubscriptions {
+  private readonly uris: Set<string>;
+
+  constructor(
+    private readonly server: McpServer,
+    private readonly options: ResourceSubscriptionsOptions
+  ) {
+    this.uris = new Set(options.initial);
+  }
+
+  /** Declares the `subscribe` capability and installs the handlers. Must run before `connect`. */
+  attach(): void {
+    const protocol = this.server.server;
+    protocol.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+
+    protocol.setRequestHandler('resources/subscribe', async ({ params }, ctx) => {
+      this.options.authorize(params.uri, ctx);
+      this.update(() => this.uris.add(params.uri));
+      return {};
+    });
+
+    protocol.setRequestHandler('resources/unsubscribe', async ({ params }) => {
+      this.update(() => this.uris.delete(params.uri));
+      return {};
+    });
+  }
+
+  list(): string[] {
+    return [...this.uris];
+  }
+
+  async notifyUpdated(uri: string): Promise<void> {
+    if (!this.uris.has(uri) || !this.server.isConnected()) {
+      return;
+    }
+
+    try {
+      await this.server.server.sendResourceUpdated({ uri });
+    } catch (error) {
+      this.options.logger.error('failed to send resource update', { uri, error });
+    }
+  }
+
+  private update(change: () => unknown): void {
+    const before = this.uris.size;
+    change();
+    if (this.uris.size !== before) {
+      this.options.onChange?.(this.list());
+    }
+  }
+}
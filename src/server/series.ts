@@ -0,0 +1,66 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+
+export const SERIES_NAMES = ['harmonic', 'basel', 'leibniz'] as const;
+
+export type SeriesName = (typeof SERIES_NAMES)[number];
+
+const TERMS: Record<SeriesName, (k: number) => number> = {
+  harmonic: (k) => 1 / k,
+  basel: (k) => 1 / (k * k),
+  leibniz: (k) => (k % 2 === 1 ? 4 : -4) / (2 * k - 1)
+};
+
+export const SERIES_DESCRIPTIONS: Record<SeriesName, string> = {
+  harmonic: '1 + 1/2 + 1/3 + ...',
+  basel: '1 + 1/4 + 1/9 + ..., converging to pi^2/6',
+  leibniz: '4 - 4/3 + 4/5 - ..., converging to pi'
+};
+
+export interface SeriesStep {
+  completedTerms: number;
+  partialSum: number;
+}
+
+export interface SumSeriesOptions {
+  terms: number;
+  /** Number of chunks the terms are split into; `onStep` runs after each. */
+  steps: number;
+  /** Pause after each chunk, standing in for slow work. */
+  delayMs: number;
+  signal: AbortSignal;
+  onStep: (step: SeriesStep) => Promise<void>;
+}
+
+export interface SeriesResult extends SeriesStep {
+  cancelled: boolean;
+}
+
+/** Sums the first `terms` terms chunk by chunk, stopping at the next chunk boundary once `signal` aborts. */
+export const sumSeries = async (
+  name: SeriesName,
+  { terms, steps, delayMs, signal, onStep }: SumSeriesOptions
+): Promise<SeriesResult> => {
+  const term = TERMS[name];
+  const chunkSize = Math.ceil(terms / steps);
+  let partialSum = 0;
+  let completedTerms = 0;
+
+  while (completedTerms < terms) {
+    if (signal.aborted) {
+      return { completedTerms, partialSum, cancelled: true };
+    }
+
+    const end = Math.min(completedTerms + chunkSize, terms);
+    for (let k = completedTerms + 1; k <= end; k += 1) {
+      partialSum += term(k);
+    }
+    completedTerms = end;
+    await onStep({ completedTerms, partialSum });
+
+    if (completedTerms < terms && delayMs > 0) {
+      await sleep(delayMs, undefined, { signal }).catch(() => undefined);
+    }
+  }
+
+  return { completedTerms, partialSum, cancelled: false };
+};
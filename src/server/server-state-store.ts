@@ -0,0 +1,53 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { ExampleServerState } from './create-mcp-server.js';
+
+/**
+ * Holds server state between requests in stateless mode, where no process keeps a session.
+ * Keys name whoever the state belongs to, so any instance behind a load balancer can load it.
+ */
+export interface ServerStateStore {
+  load(key: string): Promise<ExampleServerState | undefined>;
+  save(key: string, state: ExampleServerState): Promise<void>;
+}
+
+export class InMemoryServerStateStore implements ServerStateStore {
+  private readonly states = new Map<string, ExampleServerState>();
+
+  async load(key: string): Promise<ExampleServerState | undefined> {
+    return this.states.get(key);
+  }
+
+  async save(key: string, state: ExampleServerState): Promise<void> {
+    this.states.set(key, state);
+  }
+}
+
+/** One JSON file per key; point every instance at the same directory to share state. */
+export class FileServerStateStore implements ServerStateStore {
+  constructor(private readonly directory: string) {}
+
+  async load(key: string): Promise<ExampleServerState | undefined> {
+    try {
+      return JSON.parse(await readFile(this.pathFor(key), 'utf8')) as ExampleServerState;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async save(key: string, state: ExampleServerState): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const target = this.pathFor(key);
+    // Unique per write, since several instances may save the same key at once.
+    const temporary = `${target}.${randomUUID()}.tmp`;
+    await writeFile(temporary, JSON.stringify(state, null, 2));
+    await rename(temporary, target);
+  }
+
+  // Keys come from tokens and headers, so they are encoded rather than trusted as file names.
+  private pathFor(key: string): string {
+    return path.join(this.directory, `${Buffer.from(key).toString('base64url')}.json`);
+  }
+}
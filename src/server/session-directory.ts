@@ -0,0 +1,93 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import process from 'node:process';
+
+/** A cluster worker and the loopback address it serves forwarded requests on. */
+export interface SessionOwner {
+  workerId: number;
+  pid: number;
+  url: string;
+}
+
+/**
+ * Records which worker holds each session, so a request that lands on another worker can be
+ * forwarded to it. Lookups never return this process or a worker that is no longer running.
+ */
+export interface SessionDirectory {
+  claim(sessionId: string): Promise<void>;
+  release(sessionId: string): Promise<void>;
+  lookup(sessionId: string): Promise<SessionOwner | undefined>;
+}
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+const isRunning = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else.
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+};
+
+/**
+ * One JSON file per session in a directory every worker on the host can read. It stands in
+ * for a shared store such as Redis, which a multi-host deployment would need instead.
+ */
+export class FileSessionDirectory implements SessionDirectory {
+  private self: SessionOwner | undefined;
+
+  constructor(
+    private readonly directory: string,
+    private readonly workerId: number
+  ) {}
+
+  /** Sets the address other workers forward to; call it before this worker takes any sessions. */
+  advertise(url: string): void {
+    this.self = { workerId: this.workerId, pid: process.pid, url };
+  }
+
+  async claim(sessionId: string): Promise<void> {
+    if (!this.self) {
+      throw new Error('FileSessionDirectory.advertise() must be called before claiming sessions.');
+    }
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return;
+    }
+
+    await mkdir(this.directory, { recursive: true });
+    const target = this.pathFor(sessionId);
+    const temporary = `${target}.${process.pid}.tmp`;
+    await writeFile(temporary, JSON.stringify(this.self));
+    await rename(temporary, target);
+  }
+
+  async release(sessionId: string): Promise<void> {
+    // Another worker may have taken the session over since; its claim stays.
+    if ((await this.read(sessionId))?.pid === process.pid) {
+      await rm(this.pathFor(sessionId), { force: true });
+    }
+  }
+
+  async lookup(sessionId: string): Promise<SessionOwner | undefined> {
+    const owner = await this.read(sessionId);
+    return owner && owner.pid !== process.pid && isRunning(owner.pid) ? owner : undefined;
+  }
+
+  private async read(sessionId: string): Promise<SessionOwner | undefined> {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(await readFile(this.pathFor(sessionId), 'utf8')) as SessionOwner;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private pathFor(sessionId: string): string {
+    return path.join(this.directory, `${sessionId}.json`);
+  }
+}
@@ -0,0 +1,108 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Socket } from 'node:net';
+import path from 'node:path';
+
+import type { NodeStreamableHTTPServerTransport } from '@modelcontextprotocol/node';
+import type { InitializeRequestParams, JSONRPCMessage } from '@modelcontextprotocol/server';
+
+import type { ExampleServerState } from './create-mcp-server.js';
+
+export interface PersistedSession {
+  sessionId: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Authenticated principal that created the session, if authentication is enabled. */
+  principal?: string;
+  /** Workspace the client named at initialize; shares history with every session that names it. */
+  workspace?: string;
+  initializeParams: InitializeRequestParams;
+  serverState: ExampleServerState;
+}
+
+export interface SessionPersistence {
+  load(sessionId: string): Promise<PersistedSession | undefined>;
+  save(session: PersistedSession): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+}
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+export class FileSessionPersistence implements SessionPersistence {
+  constructor(private readonly directory: string) {}
+
+  async load(sessionId: string): Promise<PersistedSession | undefined> {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(await readFile(this.pathFor(sessionId), 'utf8')) as PersistedSession;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async save(session: PersistedSession): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const target = this.pathFor(session.sessionId);
+    // Unique per write, so a save never renames another save's half-written file.
+    const temporary = `${target}.${randomUUID()}.tmp`;
+    await writeFile(temporary, JSON.stringify(session, null, 2));
+    await rename(temporary, target);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    if (SESSION_ID_PATTERN.test(sessionId)) {
+      await rm(this.pathFor(sessionId), { force: true });
+    }
+  }
+
+  private pathFor(sessionId: string): string {
+    return path.join(this.directory, `${sessionId}.json`);
+  }
+}
+
+const dispatchInternal = async (
+  transport: NodeStreamableHTTPServerTransport,
+  message: JSONRPCMessage,
+  sessionId?: string
+): Promise<void> => {
+  const headers: Record<string, string> = {
+    host: '127.0.0.1',
+    'content-type': 'application/json',
+    accept: 'application/json, text/event-stream',
+    ...(sessionId ? { 'mcp-session-id': sessionId } : {})
+  };
+
+  const req = new IncomingMessage(new Socket());
+  req.method = 'POST';
+  req.url = '/mcp';
+  req.headers = headers;
+  req.rawHeaders = Object.entries(headers).flat();
+  req.push(null);
+
+  await transport.handleRequest(req, new ServerResponse(req), message);
+};
+
+/**
+ * Replays the client's original handshake against a freshly built transport so it
+ * accepts the persisted session ID without the client having to re-initialize.
+ */
+export const replayInitializeHandshake = async (
+  transport: NodeStreamableHTTPServerTransport,
+  session: PersistedSession
+): Promise<void> => {
+  await dispatchInternal(transport, {
+    jsonrpc: '2.0',
+    id: `rehydrate-${session.sessionId}`,
+    method: 'initialize',
+    params: session.initializeParams
+  });
+  await dispatchInternal(
+    transport,
+    { jsonrpc: '2.0', method: 'notifications/initialized' },
+    session.sessionId
+  );
+};
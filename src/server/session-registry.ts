@@ -1,93 +1,868 @@
 import { randomUUID } from 'node:crypto';
+import type { ServerResponse } from 'node:http';
+import path from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
 
 import { NodeStreamableHTTPServerTransport } from '@modelcontextprotocol/node';
+import {
+  type Implementation,
+  type InitializeRequestParams,
+  isInitializeRequest,
+  isJSONRPCErrorResponse,
+  isJSONRPCRequest,
+  isJSONRPCResultResponse,
+  type McpServer,
+  type RequestId,
+  type Transport
+} from '@modelcontextprotocol/server';
 
-import { createExampleMcpServer } from './create-mcp-server.js';
-import { InMemoryEventStore } from './in-memory-event-store.js';
+import { createExampleMcpServer, type ExampleServerState } from './create-mcp-server.js';
+import { FileEventStore } from './file-event-store.js';
+import { type HistoryOwner, historyOwnerKey, type HistoryRepository } from './history-repository.js';
+import { type EventStoreOptions, InMemoryEventStore } from './in-memory-event-store.js';
+import { LegacySseServerTransport } from './legacy-sse-transport.js';
+import { Logger } from './logger.js';
+import type { ServerMetrics } from './metrics.js';
+import type { BucketSnapshot, RateLimiter } from './rate-limiter.js';
+import { InMemoryServerStateStore, type ServerStateStore } from './server-state-store.js';
+import type { SessionDirectory } from './session-directory.js';
+import {
+  type PersistedSession,
+  replayInitializeHandshake,
+  type SessionPersistence
+} from './session-persistence.js';
+import type { OutputValidationMode } from './tool-registrar.js';
+
+export type SessionOverflowPolicy = 'evict-lru' | 'reject';
+
+/**
+ * How `POST /mcp` requests are answered: `sse` opens a stream per POST, `json` replies with one
+ * `application/json` body and sends everything else for the POST on the standalone `GET` stream.
+ */
+export type ResponseMode = 'sse' | 'json';
+
+export const RESPONSE_MODES: readonly ResponseMode[] = ['sse', 'json'];
+
+export type SessionCloseReason =
+  | 'client-delete'
+  | 'transport-closed'
+  | 'idle-timeout'
+  | 'max-lifetime'
+  | 'evicted'
+  | 'admin'
+  | 'shutdown';
+
+export interface EventStoreConfig extends EventStoreOptions {
+  kind?: 'memory' | 'file';
+  /** Root directory for `file` stores; each session writes to its own subdirectory. */
+  directory?: string;
+}
+
+export interface SessionRegistryOptions {
+  /** Close sessions that have not received a request for this long. `0` disables idle expiry. */
+  idleTimeoutMs?: number;
+  /** Close sessions this long after creation regardless of activity. `0` disables the limit. */
+  maxLifetimeMs?: number;
+  /** Maximum number of concurrent sessions. `0` means unlimited. */
+  maxSessions?: number;
+  overflowPolicy?: SessionOverflowPolicy;
+  sweepIntervalMs?: number;
+  eventStore?: EventStoreConfig;
+  /** Persists session records so sessions can be rebuilt after a restart. */
+  persistence?: SessionPersistence;
+  /** Charges every JSON-RPC request to its session and principal buckets. */
+  rateLimiter?: RateLimiter;
+  logger?: Logger;
+  metrics?: ServerMetrics;
+  /** Shared history keyed by workspace or authenticated user. */
+  history?: HistoryRepository;
+  resourcePageSize?: number;
+  /** How tools report output that does not match their schema. */
+  outputValidation?: OutputValidationMode;
+  /** Where stateless requests load and save server state. Defaults to process memory. */
+  stateStore?: ServerStateStore;
+  responseMode?: ResponseMode;
+  /** Shared record of which cluster worker holds each session. */
+  directory?: SessionDirectory;
+}
+
+/** `sse` sessions speak the 2024-11-05 HTTP+SSE transport through `/sse` and `/messages`. */
+export type SessionTransportType = 'streamable-http' | 'sse';
 
 export interface SessionMetadata {
   sessionId: string;
+  transport: SessionTransportType;
   createdAt: string;
+  lastActivityAt: string;
+  expiresAt: string | null;
   historyLength: number;
+  rateLimit?: BucketSnapshot;
+}
+
+export interface SessionDetails extends SessionMetadata {
+  principal: string | null;
+  clientInfo: Implementation | null;
+  /** SSE responses currently open for this session, standalone and per-request. */
+  openStreams: number;
+  storedEvents: number;
 }
 
-interface SessionState {
+interface SessionBaseState {
   sessionId: string;
-  createdAt: string;
-  transport: NodeStreamableHTTPServerTransport;
+  principal: string | undefined;
+  createdAtMs: number;
+  lastActivityAtMs: number;
+  clientInfo: Implementation | undefined;
+  openStreams: number;
+  server: McpServer;
   closeServer: () => Promise<void>;
   getHistoryLength: () => number;
+  /** Refreshes the persisted record's `updatedAt` after a request; throttled, and absent without persistence. */
+  saveActivity?: () => void;
 }
 
+// Legacy sessions have no event store: their single stream cannot be resumed.
+export type SessionState = SessionBaseState &
+  (
+    | {
+        transportType: 'streamable-http';
+        transport: NodeStreamableHTTPServerTransport;
+        eventStore: InMemoryEventStore;
+      }
+    | { transportType: 'sse'; transport: LegacySseServerTransport; eventStore?: undefined }
+  );
+
+/** A server and transport that answer exactly one stateless request. */
+export interface StatelessExchange {
+  transport: NodeStreamableHTTPServerTransport;
+  /** Closes both once the response has been sent. */
+  close: () => Promise<void>;
+}
+
+export class SessionLimitError extends Error {
+  constructor(readonly maxSessions: number) {
+    super(`Session limit of ${maxSessions} reached. Try again later.`);
+    this.name = 'SessionLimitError';
+  }
+}
+
+export class ServerDrainingError extends Error {
+  constructor() {
+    super('Server is shutting down and not accepting new sessions. Retry shortly.');
+    this.name = 'ServerDrainingError';
+  }
+}
+
+const DRAIN_POLL_INTERVAL_MS = 100;
+
+/** Requests that change no state refresh a persisted session's `updatedAt` this often per idle timeout. */
+const ACTIVITY_SAVES_PER_IDLE_TIMEOUT = 4;
+
+/** State key for stateless callers with neither a principal nor a workspace. */
+const ANONYMOUS_STATE_KEY = 'anonymous';
+
+// An explicit workspace wins, so one user can keep separate histories per workspace. An
+// authenticated caller's workspace lives under its principal, so naming another user's workspace
+// ID reaches a fresh history rather than theirs.
+const resolveHistoryOwner = ({
+  workspace,
+  principal
+}: Pick<PersistedSession, 'workspace' | 'principal'>): HistoryOwner | undefined => {
+  if (workspace) {
+    return principal ? { kind: 'workspace', id: workspace, principal } : { kind: 'workspace', id: workspace };
+  }
+  return principal ? { kind: 'user', id: principal } : undefined;
+};
+
 export class SessionRegistry {
+  readonly responseMode: ResponseMode;
   private readonly sessions = new Map<string, SessionState>();
+  private readonly idleTimeoutMs: number;
+  private readonly maxLifetimeMs: number;
+  private readonly maxSessions: number;
+  private readonly overflowPolicy: SessionOverflowPolicy;
+  private readonly eventStoreConfig: EventStoreConfig;
+  private readonly persistence: SessionPersistence | undefined;
+  private readonly rateLimiter: RateLimiter | undefined;
+  private readonly logger: Logger;
+  private readonly metrics: ServerMetrics | undefined;
+  private readonly history: HistoryRepository | undefined;
+  private readonly resourcePageSize: number | undefined;
+  private readonly outputValidation: OutputValidationMode | undefined;
+  private readonly stateStore: ServerStateStore;
+  private readonly directory: SessionDirectory | undefined;
+  private readonly statelessExchanges = new Set<StatelessExchange>();
+  // Loads wait for earlier saves to the same key, so a client's next request sees its last result.
+  private readonly pendingStateSaves = new Map<string, Promise<void>>();
+  // One state change can follow another before its save finishes, as in a batch of calls.
+  private readonly pendingSessionSaves = new Map<string, Promise<void>>();
+  private readonly pendingRestores = new Map<string, Promise<SessionState | undefined>>();
+  private readonly sweepTimer: NodeJS.Timeout | undefined;
+  // Sessions past the capacity check that are not in `sessions` yet.
+  private pendingSessions = 0;
+  private draining = false;
+
+  constructor(options: SessionRegistryOptions = {}) {
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 0;
+    this.maxLifetimeMs = options.maxLifetimeMs ?? 0;
+    this.maxSessions = options.maxSessions ?? 0;
+    this.overflowPolicy = options.overflowPolicy ?? 'evict-lru';
+    this.eventStoreConfig = options.eventStore ?? {};
+    this.persistence = options.persistence;
+    this.rateLimiter = options.rateLimiter;
+    this.logger = options.logger ?? new Logger();
+    this.metrics = options.metrics;
+    this.history = options.history;
+    this.resourcePageSize = options.resourcePageSize;
+    this.outputValidation = options.outputValidation;
+    this.stateStore = options.stateStore ?? new InMemoryServerStateStore();
+    this.responseMode = options.responseMode ?? 'sse';
+    this.directory = options.directory;
+
+    const expiryWindows = [this.idleTimeoutMs, this.maxLifetimeMs].filter((ms) => ms > 0);
+    if (expiryWindows.length > 0) {
+      const sweepIntervalMs = options.sweepIntervalMs ?? Math.min(30_000, ...expiryWindows);
+      this.sweepTimer = setInterval(() => {
+        void this.sweepExpired();
+      }, sweepIntervalMs);
+      this.sweepTimer.unref();
+    }
+  }
 
   get(sessionId: string): SessionState | undefined {
     return this.sessions.get(sessionId);
   }
 
+  touch(sessionId: string): void {
+    const state = this.sessions.get(sessionId);
+    if (!state) {
+      return;
+    }
+
+    state.lastActivityAtMs = Date.now();
+    // Re-inserting keeps the map ordered from least to most recently used.
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, state);
+    state.saveActivity?.();
+  }
+
   list(): SessionMetadata[] {
-    return [...this.sessions.values()].map((state) => ({
-      sessionId: state.sessionId,
-      createdAt: state.createdAt,
-      historyLength: state.getHistoryLength()
-    }));
+    return [...this.sessions.values()].map((state) => this.describe(state));
+  }
+
+  inspect(sessionId: string): SessionDetails | undefined {
+    const state = this.sessions.get(sessionId);
+    if (!state) {
+      return undefined;
+    }
+
+    return {
+      ...this.describe(state),
+      principal: state.principal ?? null,
+      // Legacy sessions start before their initialize request, so the server is asked instead.
+      clientInfo: state.clientInfo ?? state.server.server.getClientVersion() ?? null,
+      openStreams: state.openStreams,
+      storedEvents: state.eventStore?.size() ?? 0
+    };
+  }
+
+  /** Counts `res` as one of the session's open streams until it closes. */
+  trackStream(sessionId: string, res: ServerResponse): void {
+    const state = this.sessions.get(sessionId);
+    if (!state) {
+      return;
+    }
+
+    state.openStreams += 1;
+    res.once('close', () => {
+      state.openStreams -= 1;
+    });
   }
 
   count(): number {
     return this.sessions.size;
   }
 
-  async createSessionTransport(): Promise<NodeStreamableHTTPServerTransport> {
-    const eventStore = new InMemoryEventStore();
-    const { server, getHistory } = createExampleMcpServer();
+  storedEventCount(): number {
+    let total = 0;
+    for (const state of this.sessions.values()) {
+      total += state.eventStore?.size() ?? 0;
+    }
+    return total;
+  }
+
+  isDraining(): boolean {
+    return this.draining;
+  }
+
+  async getOrRestore(sessionId: string): Promise<SessionState | undefined> {
+    const state = this.sessions.get(sessionId);
+    if (state || !this.persistence || this.draining) {
+      return state;
+    }
+
+    let pending = this.pendingRestores.get(sessionId);
+    if (!pending) {
+      pending = this.restoreSession(sessionId).finally(() => this.pendingRestores.delete(sessionId));
+      this.pendingRestores.set(sessionId, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Builds a session and lets `handle` answer the initialize request on its transport. If
+   * initialize does not complete, the session's server, transport, and event store are closed.
+   */
+  async initializeSession(
+    initializeParams: InitializeRequestParams,
+    principal: string | undefined,
+    workspace: string | undefined,
+    handle: (transport: NodeStreamableHTTPServerTransport) => Promise<void>
+  ): Promise<void> {
+    if (this.draining) {
+      throw new ServerDrainingError();
+    }
+
+    const release = await this.reserveSlot();
+    const now = new Date().toISOString();
+    const sessionId = randomUUID();
+    try {
+      const { transport, discard } = await this.buildSession(
+        {
+          sessionId,
+          createdAt: now,
+          updatedAt: now,
+          principal,
+          workspace,
+          initializeParams,
+          serverState: { history: [] }
+        },
+        { onRegistered: release }
+      );
+      try {
+        await handle(transport);
+      } finally {
+        if (!this.sessions.has(sessionId)) {
+          await discard();
+        }
+      }
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Opens a 2024-11-05 HTTP+SSE session on `res`, which stays open as its only server-to-client
+   * stream. Such sessions are never persisted, since the stream cannot outlive the process.
+   */
+  async createLegacySession(
+    res: ServerResponse,
+    principal?: string,
+    workspace?: string
+  ): Promise<LegacySseServerTransport> {
+    if (this.draining) {
+      throw new ServerDrainingError();
+    }
+
+    const release = await this.reserveSlot();
+
+    const sessionId = randomUUID();
+    const logger = this.logger.child({ sessionId });
+    const { server, getHistory, close } = this.createSessionServer(
+      { principal, workspace, serverState: { history: [] } },
+      logger
+    );
+    const transport = new LegacySseServerTransport(sessionId, res);
+    const now = Date.now();
+
+    // Registered before the endpoint event goes out, so the client's first POST finds the session.
+    this.sessions.set(sessionId, {
+      sessionId,
+      transportType: 'sse',
+      principal,
+      clientInfo: undefined,
+      openStreams: 0,
+      createdAtMs: now,
+      lastActivityAtMs: now,
+      transport,
+      server,
+      closeServer: close,
+      getHistoryLength: () => getHistory().length
+    });
+    release();
+    this.metrics?.sessionCreated();
+    await this.claim(sessionId);
+
+    transport.onclose = () => {
+      void this.closeSession(sessionId, 'transport-closed');
+    };
+    transport.onerror = (error) => {
+      logger.error('transport error', { error });
+    };
+
+    await server.connect(transport);
+    this.limitIncomingRequests(transport, sessionId, principal);
+    this.traceRequests(transport, logger);
+    return transport;
+  }
+
+  /**
+   * Builds a server and a transport without a session ID for one stateless request. State is
+   * keyed by workspace or principal, loaded from the state store, and saved back on every change.
+   */
+  async createStatelessExchange(principal?: string, workspace?: string): Promise<StatelessExchange> {
+    if (this.draining) {
+      throw new ServerDrainingError();
+    }
+
+    const owner = resolveHistoryOwner({ principal, workspace });
+    const stateKey = owner ? historyOwnerKey(owner) : ANONYMOUS_STATE_KEY;
+    await this.pendingStateSaves.get(stateKey);
+    const serverState = (await this.stateStore.load(stateKey)) ?? { history: [] };
+
+    // Subscriptions are dropped: without a standalone stream there is nowhere to send updates.
+    const save = ({ history }: ExampleServerState): void => {
+      const pending: Promise<void> = (this.pendingStateSaves.get(stateKey) ?? Promise.resolve())
+        .then(() => this.stateStore.save(stateKey, { history }))
+        .catch((error: unknown) => {
+          this.logger.error('failed to save stateless server state', { error });
+        })
+        .finally(() => {
+          if (this.pendingStateSaves.get(stateKey) === pending) {
+            this.pendingStateSaves.delete(stateKey);
+          }
+        });
+      this.pendingStateSaves.set(stateKey, pending);
+    };
+
+    const { server, close: closeServer } = this.createSessionServer(
+      { principal, workspace, serverState },
+      this.logger,
+      save
+    );
+    const transport = new NodeStreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+      enableJsonResponse: this.responseMode === 'json'
+    });
+    transport.onerror = (error) => {
+      this.logger.error('transport error', { error });
+    };
+
+    await server.connect(transport);
+    this.routeToStandaloneStream(transport);
+    this.traceRequests(transport, this.logger);
+
+    const exchange: StatelessExchange = {
+      transport,
+      close: async () => {
+        if (this.statelessExchanges.delete(exchange)) {
+          await Promise.allSettled([transport.close(), closeServer()]);
+        }
+      }
+    };
+    this.statelessExchanges.add(exchange);
+    return exchange;
+  }
+
+  async closeSession(sessionId: string, reason: SessionCloseReason = 'transport-closed'): Promise<void> {
+    const state = this.sessions.get(sessionId);
+    if (!state) {
+      return;
+    }
+
+    this.sessions.delete(sessionId);
+    this.rateLimiter?.forgetSession(sessionId);
+    this.metrics?.sessionClosed(reason);
+
+    const forced =
+      reason === 'idle-timeout' || reason === 'max-lifetime' || reason === 'evicted' || reason === 'admin';
+    this.logger.log(forced ? 'warn' : 'info', 'session closed', { sessionId, reason });
+
+    // Durable event logs and session records outlive a shutdown so clients can resume after a restart.
+    // A save still in flight would otherwise write the record back after it is deleted.
+    const discardDurableState =
+      reason === 'shutdown'
+        ? Promise.resolve()
+        : Promise.all([
+            state.eventStore?.clear(),
+            (this.pendingSessionSaves.get(sessionId) ?? Promise.resolve()).then(() =>
+              this.persistence?.delete(sessionId)
+            )
+          ]);
+    await Promise.allSettled([
+      state.transport.close(),
+      state.closeServer(),
+      discardDurableState,
+      this.directory?.release(sessionId)
+    ]);
+  }
+
+  async closeAll(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+
+    await Promise.allSettled([
+      ...[...this.sessions.keys()].map((sessionId) => this.closeSession(sessionId, 'shutdown')),
+      ...[...this.statelessExchanges].map((exchange) => exchange.close())
+    ]);
+  }
+
+  /**
+   * Refuses new sessions, gives existing ones and in-flight stateless requests up to `graceMs`
+   * to finish their work and disconnect, then closes whatever is left. Returns early once every
+   * session is gone.
+   */
+  async drain(graceMs: number): Promise<void> {
+    this.draining = true;
+    this.logger.warn('draining sessions', { activeSessions: this.sessions.size, graceMs });
+
+    const deadline = Date.now() + graceMs;
+    while (this.sessions.size + this.statelessExchanges.size > 0 && Date.now() < deadline) {
+      await sleep(DRAIN_POLL_INTERVAL_MS);
+    }
+
+    await this.closeAll();
+  }
+
+  private async restoreSession(sessionId: string): Promise<SessionState | undefined> {
+    const record = await this.persistence?.load(sessionId);
+    if (!record) {
+      return undefined;
+    }
+
+    // `updatedAt` is refreshed by activity, so it tells how long the session sat idle.
+    const now = Date.now();
+    const expired =
+      (this.maxLifetimeMs > 0 && now - Date.parse(record.createdAt) >= this.maxLifetimeMs) ||
+      (this.idleTimeoutMs > 0 && now - Date.parse(record.updatedAt) >= this.idleTimeoutMs);
+    if (expired) {
+      await this.persistence?.delete(sessionId);
+      return undefined;
+    }
+
+    const release = await this.reserveSlot();
+    try {
+      const { discard } = await this.buildSession(record, { restored: true, onRegistered: release });
+      if (!this.sessions.has(sessionId)) {
+        await discard();
+        return undefined;
+      }
+    } finally {
+      release();
+    }
+
+    this.logger.info('session restored from persisted state', { sessionId });
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * Restored sessions replay their original handshake before requests are traced, so a restore
+   * is not counted as a new session or an `initialize` request.
+   */
+  private async buildSession(
+    record: PersistedSession,
+    { restored = false, onRegistered }: { restored?: boolean; onRegistered?: () => void } = {}
+  ): Promise<{ transport: NodeStreamableHTTPServerTransport; discard: () => Promise<void> }> {
+    const { sessionId } = record;
+    const logger = this.logger.child({ sessionId });
+    const eventStore = await this.createEventStore(sessionId, logger);
+
+    const persist = (serverState: ExampleServerState): void => {
+      if (!this.persistence) {
+        return;
+      }
+
+      record = { ...record, updatedAt: new Date().toISOString(), serverState };
+      const snapshot = record;
+      const persistence = this.persistence;
+      const pending: Promise<void> = (this.pendingSessionSaves.get(sessionId) ?? Promise.resolve())
+        .then(() => persistence.save(snapshot))
+        .catch((error: unknown) => {
+          logger.error('failed to persist session', { error });
+        })
+        .finally(() => {
+          if (this.pendingSessionSaves.get(sessionId) === pending) {
+            this.pendingSessionSaves.delete(sessionId);
+          }
+        });
+      this.pendingSessionSaves.set(sessionId, pending);
+    };
+
+    const { server, getHistory, getState, close } = this.createSessionServer(record, logger, persist);
+
+    const saveActivity = (): void => {
+      const savedAgoMs = Date.now() - Date.parse(record.updatedAt);
+      if (this.idleTimeoutMs > 0 && savedAgoMs >= this.idleTimeoutMs / ACTIVITY_SAVES_PER_IDLE_TIMEOUT) {
+        persist(getState());
+      }
+    };
 
     let transport: NodeStreamableHTTPServerTransport;
 
     transport = new NodeStreamableHTTPServerTransport({
-      sessionIdGenerator: () => randomUUID(),
+      sessionIdGenerator: () => sessionId,
       eventStore,
-      onsessioninitialized: (sessionId) => {
-        this.sessions.set(sessionId, {
-          sessionId,
-          createdAt: new Date().toISOString(),
+      enableJsonResponse: this.responseMode === 'json',
+      onsessioninitialized: async (initializedSessionId) => {
+        const now = Date.now();
+        this.sessions.set(initializedSessionId, {
+          sessionId: initializedSessionId,
+          transportType: 'streamable-http',
+          principal: record.principal,
+          clientInfo: record.initializeParams.clientInfo,
+          openStreams: 0,
+          createdAtMs: Date.parse(record.createdAt),
+          lastActivityAtMs: now,
           transport,
-          closeServer: async () => server.close(),
-          getHistoryLength: () => getHistory().length
+          eventStore,
+          server,
+          closeServer: close,
+          getHistoryLength: () => getHistory().length,
+          saveActivity: this.persistence ? saveActivity : undefined
         });
+        onRegistered?.();
+        if (!restored) {
+          this.metrics?.sessionCreated();
+        }
+        persist(getState());
+        // Before the initialize response, so the client's next request can already be forwarded here.
+        await this.claim(initializedSessionId);
       },
-      onsessionclosed: async (sessionId) => {
-        await this.closeSession(sessionId);
+      onsessionclosed: async (closedSessionId) => {
+        await this.closeSession(closedSessionId, 'client-delete');
       }
     });
 
     transport.onclose = () => {
-      const sessionId = transport.sessionId;
-      if (sessionId) {
-        void this.closeSession(sessionId);
+      const closedSessionId = transport.sessionId;
+      if (closedSessionId) {
+        void this.closeSession(closedSessionId, 'transport-closed');
       }
     };
 
     transport.onerror = (error) => {
-      console.error('[transport] error:', error);
+      logger.error('transport error', { error });
     };
 
     await server.connect(transport);
-    return transport;
+    this.routeToStandaloneStream(transport);
+    this.limitIncomingRequests(transport, sessionId, record.principal);
+    if (restored) {
+      await replayInitializeHandshake(transport, record);
+    }
+    this.traceRequests(transport, logger);
+
+    const discard = async (): Promise<void> => {
+      await Promise.allSettled([transport.close(), close(), eventStore.clear()]);
+    };
+    return { transport, discard };
   }
 
-  async closeSession(sessionId: string): Promise<void> {
-    const state = this.sessions.get(sessionId);
-    if (!state) {
+  private createSessionServer(
+    record: Pick<PersistedSession, 'principal' | 'workspace' | 'serverState'>,
+    logger: Logger,
+    onStateChange?: (state: ExampleServerState) => void
+  ) {
+    return createExampleMcpServer({
+      initialState: record.serverState,
+      onStateChange,
+      logger,
+      metrics: this.metrics,
+      history: this.history,
+      historyOwner: resolveHistoryOwner(record),
+      resourcePageSize: this.resourcePageSize,
+      outputValidation: this.outputValidation
+    });
+  }
+
+  private async claim(sessionId: string): Promise<void> {
+    await this.directory?.claim(sessionId).catch((error: unknown) => {
+      this.logger.error('failed to record session owner', { sessionId, error });
+    });
+  }
+
+  /**
+   * Answers requests over the session's budget with a JSON-RPC error on their own
+   * response stream, so the rest of a batch that is already streaming still completes.
+   */
+  private limitIncomingRequests(
+    transport: Transport,
+    sessionId: string,
+    principal: string | undefined
+  ): void {
+    const { rateLimiter } = this;
+    const deliver = transport.onmessage;
+    if (!rateLimiter || !deliver) {
       return;
     }
 
-    this.sessions.delete(sessionId);
+    transport.onmessage = (message, extra) => {
+      // initialize is already charged per remote address by the HTTP layer.
+      if (!isJSONRPCRequest(message) || isInitializeRequest(message)) {
+        deliver(message, extra);
+        return;
+      }
 
-    await Promise.allSettled([state.transport.close(), state.closeServer()]);
+      const decision = rateLimiter.admitMessage(sessionId, principal);
+      if (decision.allowed) {
+        deliver(message, extra);
+        return;
+      }
+
+      const { scope, retryAfterMs } = decision;
+      transport
+        .send({
+          jsonrpc: '2.0',
+          id: message.id,
+          error: {
+            code: -32_000,
+            message: `Rate limit exceeded for ${scope}. Retry after ${Math.ceil(retryAfterMs / 1000)}s.`,
+            data: { scope, retryAfterMs }
+          }
+        })
+        .catch((error: unknown) => {
+          this.logger.error('failed to send rate limit error', { sessionId, error });
+        });
+    };
   }
 
-  async closeAll(): Promise<void> {
-    await Promise.allSettled([...this.sessions.keys()].map((sessionId) => this.closeSession(sessionId)));
+  /**
+   * In `json` mode the SDK drops anything but the response that is tied to a POST, so progress,
+   * logs, and server-to-client requests are sent on the standalone `GET` stream instead.
+   */
+  private routeToStandaloneStream(transport: NodeStreamableHTTPServerTransport): void {
+    if (this.responseMode !== 'json') {
+      return;
+    }
+
+    const send = transport.send.bind(transport);
+    transport.send = async (message, options) =>
+      isJSONRPCResultResponse(message) || isJSONRPCErrorResponse(message)
+        ? send(message, options)
+        : send(message, { ...options, relatedRequestId: undefined });
+  }
+
+  /** Logs every JSON-RPC request once its response is sent, with method, ID, and latency. */
+  private traceRequests(transport: Transport, logger: Logger): void {
+    const deliver = transport.onmessage;
+    if (!deliver) {
+      return;
+    }
+
+    const pending = new Map<
+      RequestId,
+      { rpcId: RequestId; rpcMethod: string; tool?: unknown; startedAtMs: number }
+    >();
+
+    transport.onmessage = (message, extra) => {
+      if (isJSONRPCRequest(message)) {
+        pending.set(message.id, {
+          rpcId: message.id,
+          rpcMethod: message.method,
+          tool: message.method === 'tools/call' ? message.params?.name : undefined,
+          startedAtMs: Date.now()
+        });
+      }
+      deliver(message, extra);
+    };
+
+    const send = transport.send.bind(transport);
+    transport.send = async (message, options) => {
+      const response =
+        isJSONRPCResultResponse(message) || isJSONRPCErrorResponse(message) ? message : undefined;
+      const request = response?.id === undefined ? undefined : pending.get(response.id);
+      if (response && request) {
+        pending.delete(request.rpcId);
+        const { startedAtMs, ...fields } = request;
+        const error = 'error' in response ? response.error : undefined;
+        const toolError = 'result' in response && response.result.isError === true;
+        const outcome = error ? 'error' : toolError ? 'tool-error' : 'ok';
+        this.metrics?.jsonRpcRequest(request.rpcMethod, outcome);
+        logger.log(error ? 'warn' : 'info', 'mcp request', {
+          ...fields,
+          durationMs: Date.now() - startedAtMs,
+          outcome,
+          errorCode: error?.code
+        });
+      }
+      return send(message, options);
+    };
+  }
+
+  private async createEventStore(sessionId: string, logger: Logger): Promise<InMemoryEventStore> {
+    const { kind = 'memory', directory = '.data/events', ...limits } = this.eventStoreConfig;
+    if (kind === 'file') {
+      return FileEventStore.open({ ...limits, directory: path.join(directory, sessionId), logger });
+    }
+
+    return new InMemoryEventStore(limits);
+  }
+
+  private describe(state: SessionState): SessionMetadata {
+    const expiresAtMs = this.getExpiresAtMs(state);
+    return {
+      sessionId: state.sessionId,
+      transport: state.transportType,
+      createdAt: new Date(state.createdAtMs).toISOString(),
+      lastActivityAt: new Date(state.lastActivityAtMs).toISOString(),
+      expiresAt: expiresAtMs === undefined ? null : new Date(expiresAtMs).toISOString(),
+      historyLength: state.getHistoryLength(),
+      rateLimit: this.rateLimiter?.sessionSnapshot(state.sessionId)
+    };
+  }
+
+  private getExpiresAtMs(state: SessionState): number | undefined {
+    const deadlines: number[] = [];
+    if (this.idleTimeoutMs > 0) {
+      deadlines.push(state.lastActivityAtMs + this.idleTimeoutMs);
+    }
+    if (this.maxLifetimeMs > 0) {
+      deadlines.push(state.createdAtMs + this.maxLifetimeMs);
+    }
+
+    return deadlines.length > 0 ? Math.min(...deadlines) : undefined;
+  }
+
+  private async sweepExpired(): Promise<void> {
+    const now = Date.now();
+    const expired: Array<[string, SessionCloseReason]> = [];
+
+    for (const state of this.sessions.values()) {
+      if (this.maxLifetimeMs > 0 && now - state.createdAtMs >= this.maxLifetimeMs) {
+        expired.push([state.sessionId, 'max-lifetime']);
+      } else if (this.idleTimeoutMs > 0 && now - state.lastActivityAtMs >= this.idleTimeoutMs) {
+        expired.push([state.sessionId, 'idle-timeout']);
+      }
+    }
+
+    await Promise.allSettled(expired.map(([sessionId, reason]) => this.closeSession(sessionId, reason)));
+  }
+
+  /**
+   * Holds a slot against the session cap until the returned function is called, once the new
+   * session is registered or abandoned. Slots are taken synchronously, so concurrent initializes
+   * cannot all pass the check while their sessions are still being built.
+   */
+  private async reserveSlot(): Promise<() => void> {
+    const full = this.maxSessions > 0 && this.sessions.size + this.pendingSessions >= this.maxSessions;
+    const leastRecentlyUsed = this.sessions.keys().next();
+    if (full && (this.overflowPolicy === 'reject' || leastRecentlyUsed.done)) {
+      throw new SessionLimitError(this.maxSessions);
+    }
+
+    this.pendingSessions += 1;
+    let released = false;
+    const release = (): void => {
+      if (!released) {
+        released = true;
+        this.pendingSessions -= 1;
+      }
+    };
+
+    if (full && !leastRecentlyUsed.done) {
+      await this.closeSession(leastRecentlyUsed.value, 'evicted');
+    }
+    return release;
   }
 }
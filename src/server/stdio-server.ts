@@ -0,0 +1,115 @@
+import process from 'node:process';
+import type { Readable, Writable } from 'node:stream';
+
+import {
+  isJSONRPCErrorResponse,
+  isJSONRPCRequest,
+  isJSONRPCResultResponse,
+  type RequestId,
+  StdioServerTransport
+} from '@modelcontextprotocol/server';
+
+import {
+  createExampleMcpServer,
+  type ExampleMcpServer,
+  type ExampleMcpServerOptions
+} from './create-mcp-server.js';
+import type { Logger } from './logger.js';
+
+export interface StdioServerOptions extends Omit<ExampleMcpServerOptions, 'initialState' | 'onStateChange'> {
+  logger: Logger;
+  /** Defaults to `process.stdin`. */
+  input?: Readable;
+  /** Defaults to `process.stdout`, which then must not carry anything but JSON-RPC. */
+  output?: Writable;
+}
+
+/**
+ * Serves `createExampleMcpServer` to the client that launched the process, over newline-delimited
+ * JSON-RPC on stdin and stdout. That client is the only session, so there is no registry.
+ */
+export class StdioServer {
+  private readonly example: ExampleMcpServer;
+  private readonly transport: StdioServerTransport;
+  private readonly input: Readable;
+  private readonly logger: Logger;
+  private readonly inFlight = new Map<RequestId, { rpcMethod: string; startedAtMs: number }>();
+  private onIdle: (() => void) | undefined;
+  private closed = false;
+
+  constructor(options: StdioServerOptions) {
+    const { input = process.stdin, output = process.stdout, ...serverOptions } = options;
+    this.input = input;
+    this.logger = options.logger;
+    this.example = createExampleMcpServer(serverOptions);
+    this.transport = new StdioServerTransport(input, output);
+  }
+
+  /** Connects the server to the streams; `onInputEnd` runs once the client closes stdin. */
+  async start(onInputEnd: () => void): Promise<void> {
+    await this.example.server.connect(this.transport);
+    this.traceRequests();
+    this.input.once('end', onInputEnd);
+  }
+
+  /** Gives requests already running up to `graceMs` to answer, then closes the server. */
+  async drain(graceMs: number): Promise<void> {
+    if (this.inFlight.size > 0 && graceMs > 0) {
+      this.logger.warn('draining requests', { inFlight: this.inFlight.size, graceMs });
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, graceMs);
+        this.onIdle = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+
+    await this.close();
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    await this.example.close();
+  }
+
+  private traceRequests(): void {
+    const deliver = this.transport.onmessage;
+    if (!deliver) {
+      return;
+    }
+
+    this.transport.onmessage = (message) => {
+      if (isJSONRPCRequest(message)) {
+        this.inFlight.set(message.id, { rpcMethod: message.method, startedAtMs: Date.now() });
+      }
+      deliver(message);
+    };
+
+    const send = this.transport.send.bind(this.transport);
+    this.transport.send = async (message) => {
+      const response =
+        isJSONRPCResultResponse(message) || isJSONRPCErrorResponse(message) ? message : undefined;
+      const request = response?.id === undefined ? undefined : this.inFlight.get(response.id);
+      if (response?.id !== undefined && request) {
+        this.inFlight.delete(response.id);
+        const error = 'error' in response ? response.error : undefined;
+        this.logger.log(error ? 'warn' : 'info', 'mcp request', {
+          rpcId: response.id,
+          rpcMethod: request.rpcMethod,
+          durationMs: Date.now() - request.startedAtMs,
+          outcome: error ? 'error' : 'ok',
+          errorCode: error?.code
+        });
+      }
+
+      await send(message);
+      if (this.inFlight.size === 0) {
+        this.onIdle?.();
+      }
+    };
+  }
+}
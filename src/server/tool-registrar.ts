@@ -0,0 +1,148 @@
+import { performance } from 'node:perf_hooks';
+
+import type { CallToolResult, McpServer, ServerContext, ToolCallback } from '@modelcontextprotocol/server';
+import * as z from 'zod/v4';
+
+import type { ScopePolicy } from './authorization.js';
+import type { Logger } from './logger.js';
+import type { ServerMetrics } from './metrics.js';
+
+/** `strict` reports output that breaks its schema to the client; `log` only logs it and returns the result as is. */
+export type OutputValidationMode = 'strict' | 'log';
+
+export const OUTPUT_VALIDATION_MODES: readonly OutputValidationMode[] = ['strict', 'log'];
+
+/** A failure the caller can act on, returned as an `isError` result with `code` instead of a generic error. */
+export class ToolError extends Error {
+  constructor(
+    readonly code: string,
+    message: string,
+    /** Extra fields for `structuredContent.error`. */
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+export const toolErrorResult = (
+  code: string,
+  message: string,
+  details: Record<string, unknown> = {}
+): CallToolResult => ({
+  content: [{ type: 'text', text: message }],
+  structuredContent: { error: { code, message, ...details } },
+  isError: true
+});
+
+export interface ToolDefinition<Input extends z.ZodObject, Output extends z.ZodObject> {
+  title?: string;
+  description: string;
+  inputSchema: Input;
+  outputSchema: Output;
+  /** Scopes the caller's token must grant. */
+  scopes: string[];
+}
+
+export type ToolHandler<Input extends z.ZodObject> = (
+  args: z.output<Input>,
+  ctx: ServerContext
+) => Promise<CallToolResult>;
+
+export interface ToolRegistrarOptions {
+  scopes: ScopePolicy;
+  metrics: ServerMetrics;
+  logger: Logger;
+  outputValidation?: OutputValidationMode;
+}
+
+export type RegisterTool = <Input extends z.ZodObject, Output extends z.ZodObject>(
+  name: string,
+  definition: ToolDefinition<Input, Output>,
+  handler: ToolHandler<Input>
+) => void;
+
+const errorCodeOf = (result: CallToolResult): string | undefined => {
+  const error = (result.structuredContent as { error?: { code?: unknown } } | undefined)?.error;
+  return typeof error?.code === 'string' ? error.code : undefined;
+};
+
+/**
+ * Registers tools behind one pipeline: scope check, thrown-error normalization, output
+ * validation against `outputSchema`, and call metrics and timing.
+ */
+export const createToolRegistrar = (server: McpServer, options: ToolRegistrarOptions): RegisterTool => {
+  const { scopes, metrics, logger, outputValidation = 'strict' } = options;
+
+  return <Input extends z.ZodObject, Output extends z.ZodObject>(
+    name: string,
+    { title, description, inputSchema, outputSchema, scopes: requiredScopes }: ToolDefinition<Input, Output>,
+    handler: ToolHandler<Input>
+  ): void => {
+    const validate = async (result: CallToolResult): Promise<CallToolResult> => {
+      if (result.isError) {
+        return result;
+      }
+
+      const parsed = await outputSchema.safeParseAsync(result.structuredContent);
+      if (parsed.success) {
+        return result;
+      }
+
+      const issues = z.prettifyError(parsed.error);
+      logger.error('tool output does not match its schema', { tool: name, issues });
+      return outputValidation === 'strict'
+        ? toolErrorResult(
+            'invalid_output',
+            `Tool '${name}' returned output that does not match its schema:\n${issues}`
+          )
+        : result;
+    };
+
+    const run = async (args: z.output<Input>, ctx: ServerContext): Promise<CallToolResult> => {
+      try {
+        return await validate(await handler(args, ctx));
+      } catch (error) {
+        if (error instanceof ToolError) {
+          return toolErrorResult(error.code, error.message, error.details);
+        }
+        logger.error('tool failed', { tool: name, error });
+        // Exception messages can carry internals, so only `strict` passes them to the client.
+        const message = error instanceof Error ? error.message : String(error);
+        return toolErrorResult(
+          'internal_error',
+          outputValidation === 'strict' ? message : `Tool '${name}' failed.`
+        );
+      }
+    };
+
+    const guarded = scopes.tool(name, requiredScopes, run);
+
+    const timed = async (args: z.output<Input>, ctx: ServerContext): Promise<CallToolResult> => {
+      const startedAt = performance.now();
+      const result = await guarded(args, ctx);
+      logger.debug('tool call', {
+        tool: name,
+        rpcId: ctx.mcpReq.id,
+        durationMs: Math.round(performance.now() - startedAt),
+        ...(result.isError ? { errorCode: errorCodeOf(result) } : {})
+      });
+      return result;
+    };
+
+    const instrumented = metrics.instrumentTool(name, timed);
+    // The SDK has parsed `args` with `inputSchema` by now, but its callback type is conditional on the
+    // schema and cannot be resolved for a generic `Input`, so the tool is registered as a plain object schema.
+    const callback: ToolCallback<z.ZodObject> = (args, ctx) => instrumented(args as z.output<Input>, ctx);
+    // The SDK checks results against the registered schema too and fails the call on a mismatch, so in
+    // `log` mode it gets a schema that advertises the same JSON Schema but accepts any output.
+    const { $schema: _, ...outputJsonSchema } = z.toJSONSchema(outputSchema, { io: 'output' });
+    const advertisedSchema: z.ZodType =
+      outputValidation === 'strict' ? outputSchema : z.unknown().meta(outputJsonSchema);
+    server.registerTool<z.ZodType, z.ZodObject>(
+      name,
+      { title, description, inputSchema, outputSchema: advertisedSchema },
+      callback
+    );
+  };
+};
@@ -5,39 +5,15 @@ import {
   CallToolResultSchema,
   Client,
   ListToolsResultSchema,
+  StdioClientTransport,
   StreamableHTTPClientTransport
 } from '@modelcontextprotocol/client';
 
 const port = Number(process.env.SMOKE_PORT ?? 3213);
 const url = new URL(`http://127.0.0.1:${port}/mcp`);
+const sessionMode = process.argv.includes('--stateless') ? 'stateless' : 'stateful';
 
-const child = spawn('node', ['dist/index.js'], {
-  env: { ...process.env, PORT: String(port), HOST: '127.0.0.1' },
-  stdio: 'inherit'
-});
-
-const waitForHealth = async () => {
-  for (let attempt = 0; attempt < 30; attempt += 1) {
-    try {
-      const response = await fetch(`http://127.0.0.1:${port}/health`);
-      if (response.ok) {
-        return;
-      }
-    } catch {
-      // retry
-    }
-    await sleep(200);
-  }
-  throw new Error('Server did not become healthy');
-};
-
-try {
-  await waitForHealth();
-
-  const client = new Client({ name: 'template-smoke-client', version: '1.0.0' });
-  const transport = new StreamableHTTPClientTransport(url);
-  await client.connect(transport);
-
+const checkEcho = async (client) => {
   const tools = await client.request({ method: 'tools/list', params: {} }, ListToolsResultSchema);
   if (!tools.tools.some((tool) => tool.name === 'echo')) {
     throw new Error('echo tool not found');
@@ -64,10 +40,61 @@ try {
   if (echoed !== 'hello') {
     throw new Error(`Unexpected echo result: ${JSON.stringify(result)}`);
   }
+};
 
-  await transport.terminateSession();
+// `--stdio` launches the server as a desktop client would, over stdin and stdout.
+if (process.argv.includes('--stdio')) {
+  const client = new Client({ name: 'template-smoke-client', version: '1.0.0' });
+  await client.connect(
+    new StdioClientTransport({ command: 'node', args: ['dist/index.js', '--transport', 'stdio'] })
+  );
+  await checkEcho(client);
+  await client.close();
+  console.log('Template smoke test passed (stdio).');
+  process.exit(0);
+}
+
+const child = spawn('node', ['dist/index.js'], {
+  env: { ...process.env, PORT: String(port), HOST: '127.0.0.1', SESSION_MODE: sessionMode },
+  stdio: 'inherit'
+});
+
+const waitForHealth = async () => {
+  for (let attempt = 0; attempt < 30; attempt += 1) {
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}/health`);
+      if (response.ok) {
+        return;
+      }
+    } catch {
+      // retry
+    }
+    await sleep(200);
+  }
+  throw new Error('Server did not become healthy');
+};
+
+try {
+  await waitForHealth();
+
+  const client = new Client({ name: 'template-smoke-client', version: '1.0.0' });
+  const transport = new StreamableHTTPClientTransport(url);
+  await client.connect(transport);
+  await checkEcho(client);
+
+  if (sessionMode === 'stateless') {
+    if (transport.sessionId !== undefined) {
+      throw new Error(`Stateless server returned a session ID: ${transport.sessionId}`);
+    }
+    const stream = await fetch(url, { headers: { accept: 'text/event-stream' } });
+    if (stream.status !== 405) {
+      throw new Error(`GET /mcp returned ${stream.status} instead of 405 in stateless mode.`);
+    }
+  } else {
+    await transport.terminateSession();
+  }
   await client.close();
-  console.log('Template smoke test passed.');
+  console.log(`Template smoke test passed (${sessionMode}).`);
 } finally {
   child.kill('SIGTERM');
   await sleep(250);
@@ -1,24 +1,65 @@
 import process from 'node:process';
 
+import { StdioServerTransport } from '@modelcontextprotocol/server';
+
+import { createMcpServer } from './server/create-mcp-server.js';
 import { createHttpServer } from './server/http-server.js';
 import { SessionRegistry } from './server/session-registry.js';
 
 const port = Number.parseInt(process.env.PORT ?? '3000', 10);
 const host = process.env.HOST ?? '127.0.0.1';
+const stateless = process.env.SESSION_MODE === 'stateless';
+const transportIndex = process.argv.indexOf('--transport');
+const transport = transportIndex >= 0 && process.argv[transportIndex + 1] === 'stdio' ? 'stdio' : 'http';
 
-const registry = new SessionRegistry();
-const server = createHttpServer(registry);
+const parseList = (raw: string | undefined): string[] | undefined =>
+  raw
+    ?.split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
 
-server.listen(port, host, () => {
-  console.log(`__PROJECT_NAME__ listening on http://${host}:${port}/mcp`);
-});
+const startStdio = async () => {
+  const server = createMcpServer();
+  await server.connect(new StdioServerTransport());
+  // stdout carries JSON-RPC messages, so anything else goes to stderr.
+  console.error('__PROJECT_NAME__ serving MCP over stdio');
+
+  return async () => {
+    await server.close();
+  };
+};
+
+const startHttp = () => {
+  const registry = new SessionRegistry();
+  const server = createHttpServer(registry, {
+    allowedHosts: parseList(process.env.ALLOWED_HOSTS),
+    allowedOrigins: parseList(process.env.ALLOWED_ORIGINS),
+    stateless
+  });
+
+  server.listen(port, host, () => {
+    console.log(`__PROJECT_NAME__ listening on http://${host}:${port}/mcp${stateless ? ' (stateless)' : ''}`);
+  });
+
+  return async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await registry.closeAll();
+  };
+};
+
+const stop = transport === 'stdio' ? await startStdio() : startHttp();
 
 const shutdown = async () => {
-  await new Promise<void>((resolve) => server.close(() => resolve()));
-  await registry.closeAll();
+  await stop();
   process.exit(0);
 };
 
+if (transport === 'stdio') {
+  // The client closing stdin means it is done with the server.
+  process.stdin.once('end', () => {
+    void shutdown();
+  });
+}
 process.on('SIGINT', () => {
   void shutdown();
 });
@@ -1,9 +1,22 @@
 import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
 
-import { isInitializeRequest } from '@modelcontextprotocol/server';
+import {
+  isInitializeRequest,
+  localhostAllowedHostnames,
+  validateHostHeader
+} from '@modelcontextprotocol/server';
 
 import type { SessionRegistry } from './session-registry.js';
 
+export interface HttpServerOptions {
+  /** Hostnames accepted in the `Host` header. Defaults to loopback names; empty disables the check. */
+  allowedHosts?: string[];
+  /** Exact browser origins allowed to call `/mcp`. `*` allows any; empty allows loopback origins only. */
+  allowedOrigins?: string[];
+  /** Handle each POST with a fresh server and no session ID; GET and DELETE get `405`. */
+  stateless?: boolean;
+}
+
 const sessionIdFromRequest = (req: IncomingMessage): string | undefined => {
   const raw = req.headers['mcp-session-id'];
   return Array.isArray(raw) ? raw[0] : raw;
@@ -35,7 +48,20 @@ const sendError = (res: ServerResponse, statusCode: number, message: string): vo
   });
 };
 
-export const createHttpServer = (registry: SessionRegistry) => {
+const isOriginAllowed = (origin: string, allowedOrigins: string[]): boolean => {
+  if (allowedOrigins.length > 0) {
+    return allowedOrigins.includes('*') || allowedOrigins.includes(origin);
+  }
+  try {
+    return localhostAllowedHostnames().includes(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+};
+
+export const createHttpServer = (registry: SessionRegistry, options: HttpServerOptions = {}) => {
+  const { allowedHosts = localhostAllowedHostnames(), allowedOrigins = [], stateless = false } = options;
+
   return createServer(async (req, res) => {
     try {
       const url = new URL(req.url ?? '/', 'http://127.0.0.1');
@@ -50,6 +76,55 @@ export const createHttpServer = (registry: SessionRegistry) => {
         return;
       }
 
+      if (allowedHosts.length > 0) {
+        const host = validateHostHeader(req.headers.host, allowedHosts);
+        if (!host.ok) {
+          sendError(res, 403, host.message);
+          return;
+        }
+      }
+
+      const origin = req.headers.origin;
+      if (origin !== undefined && !isOriginAllowed(origin, allowedOrigins)) {
+        sendError(res, 403, `Origin '${origin}' is not allowed.`);
+        return;
+      }
+
+      res.setHeader('vary', 'origin');
+      if (origin !== undefined) {
+        res.setHeader('access-control-allow-origin', origin);
+        res.setHeader('access-control-expose-headers', 'mcp-session-id, mcp-protocol-version');
+      }
+
+      if (req.method === 'OPTIONS') {
+        res.statusCode = 204;
+        res.setHeader('access-control-allow-methods', 'GET, POST, DELETE, OPTIONS');
+        res.setHeader(
+          'access-control-allow-headers',
+          'accept, authorization, content-type, last-event-id, mcp-protocol-version, mcp-session-id'
+        );
+        res.setHeader('access-control-max-age', '86400');
+        res.end();
+        return;
+      }
+
+      if (stateless && req.method === 'POST') {
+        const body = await readJsonBody(req);
+        const exchange = await registry.createStatelessExchange();
+        res.once('close', () => {
+          void exchange.close();
+        });
+        await exchange.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (stateless) {
+        res.statusCode = 405;
+        res.setHeader('allow', 'POST,OPTIONS');
+        res.end();
+        return;
+      }
+
       if (req.method === 'POST') {
         const body = await readJsonBody(req);
         const sessionId = sessionIdFromRequest(req);
@@ -92,7 +167,7 @@ export const createHttpServer = (registry: SessionRegistry) => {
       }
 
       res.statusCode = 405;
-      res.setHeader('allow', 'GET,POST,DELETE');
+      res.setHeader('allow', 'GET,POST,DELETE,OPTIONS');
       res.end();
     } catch (error) {
       console.error(error);
@@ -10,6 +10,11 @@ interface SessionState {
   closeServer: () => Promise<void>;
 }
 
+export interface StatelessExchange {
+  transport: NodeStreamableHTTPServerTransport;
+  close: () => Promise<void>;
+}
+
 export class SessionRegistry {
   private readonly sessions = new Map<string, SessionState>();
 
@@ -50,6 +55,20 @@ export class SessionRegistry {
     return transport;
   }
 
+  /** Serves a single request without a session; call `close` once its response is sent. */
+  async createStatelessExchange(): Promise<StatelessExchange> {
+    const server = createMcpServer();
+    const transport = new NodeStreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    await server.connect(transport);
+
+    return {
+      transport,
+      close: async () => {
+        await Promise.allSettled([transport.close(), server.close()]);
+      }
+    };
+  }
+
   async closeSession(sessionId: string): Promise<void> {
     const state = this.sessions.get(sessionId);
     if (!state) {